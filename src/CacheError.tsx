@@ -0,0 +1,67 @@
+/**
+ *
+ * Errors reported when a source can not be loaded from the cache.
+ *
+ * The type of the error tells apart sources that can never be loaded, e.g. an invalid url, from failures that
+ * may succeed when the source is requested again, e.g. a network failure.
+ *
+ */
+
+/**
+ * invalidUrl: the source uri is not a web accessible url with a valid protocol.
+ * hostNotAllowed: the host of the source uri is not in the fileHostWhitelist.
+ * httpStatus: the server responded with an unsuccessful status code, see statusCode.
+ * network: the download failed without a response.
+ * diskWrite: the file could not be written to the cache directory.
+ * validation: the downloaded file failed content validation.
+ */
+export type CacheErrorType =
+  | 'invalidUrl'
+  | 'hostNotAllowed'
+  | 'httpStatus'
+  | 'network'
+  | 'diskWrite'
+  | 'validation'
+
+export class CacheError extends Error {
+  type: CacheErrorType
+  statusCode: number | null // Response status code of httpStatus errors.
+  originalError: Error | null // The error that caused this error, if any.
+
+  constructor(
+    type: CacheErrorType,
+    message: string,
+    {
+      statusCode = null,
+      originalError = null,
+    }: { statusCode?: number | null; originalError?: Error | null } = {},
+  ) {
+    super(message)
+
+    // Keep instanceof working when classes are compiled to ES5.
+    Object.setPrototypeOf(this, CacheError.prototype)
+
+    this.name = 'CacheError'
+    this.type = type
+    this.statusCode = statusCode
+    this.originalError = originalError
+  }
+}
+
+/**
+ *
+ * Wraps an error in a CacheError of the given type, CacheErrors are returned unchanged.
+ *
+ * @param error {unknown} - the error to wrap.
+ * @param type {CacheErrorType} - type of the CacheError if the error has to be wrapped.
+ * @returns {CacheError}
+ */
+export const toCacheError = (error: unknown, type: CacheErrorType): CacheError => {
+  if (error instanceof CacheError) {
+    return error
+  }
+
+  return error instanceof Error
+    ? new CacheError(type, error.message, { originalError: error })
+    : new CacheError(type, String(error))
+}
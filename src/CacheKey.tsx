@@ -0,0 +1,41 @@
+/**
+ *
+ * Cache key functions map a url to the key its cached file name is derived from.
+ * Urls that map to the same key share a cached file, e.g. signed urls whose signature changes on every request.
+ *
+ */
+
+import URL from 'url-parse'
+
+export type CacheKeyFunction = (url: string) => string
+
+/**
+ *
+ * Creates a cache key function that removes the given query parameters from the url.
+ *
+ * @param params {Array<String>} - names of the query parameters to remove, e.g. ['Expires', 'Signature'].
+ * @returns {CacheKeyFunction}
+ */
+export const stripQueryParams = (params: string[]): CacheKeyFunction => (url) => {
+  const urlParts = new URL(url, true)
+  const query = { ...urlParts.query }
+
+  params.forEach((param) => delete query[param])
+  urlParts.set('query', query)
+
+  return urlParts.toString()
+}
+
+/**
+ *
+ * Cache key function that removes all query parameters from the url.
+ *
+ * @param url {String} - An absolute url.
+ * @returns {String}
+ */
+export const stripAllQueryParams: CacheKeyFunction = (url) => {
+  const urlParts = new URL(url)
+  urlParts.set('query', '')
+
+  return urlParts.toString()
+}
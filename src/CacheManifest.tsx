@@ -0,0 +1,284 @@
+/**
+ *
+ * Persistent index of the files stored in the cache directory.
+ *
+ * The manifest is loaded from disk once and kept in memory, every change is written back to disk so that
+ * pruning and lookups do not need to scan the cache directory. If the manifest is missing or corrupt it is
+ * rebuilt from the directory contents, in which case the source url of each file is unknown until it is requested again.
+ *
+ * Downloads are stored with the extension of their image type, which may differ from the extension of the file name
+ * requested for a url, e.g. '.bin' for urls without an extension. The manifest maps requested file names to the
+ * stored file names so that lookups by either name find the same entry.
+ *
+ */
+
+import RNFS from 'react-native-fs'
+
+export interface CacheEntry {
+  url: string | null // Source url, null if the entry was rebuilt from the directory contents.
+  fileName: string
+  permanent: boolean
+  size: number // Size in bytes.
+  contentType: string | null
+  etag: string | null
+  lastModified: string | null // Last-Modified response header.
+  cacheControl: string | null // Cache-Control response header.
+  expires: string | null // Expires response header.
+  expiresAt: number | null // Timestamp the file becomes stale, null if the response did not specify a freshness lifetime.
+  maxAge: number | null // Time-to-live in seconds, measured from validatedAt.
+  createdAt: number // Timestamp the file was written to the cache.
+  validatedAt: number // Timestamp the file was last downloaded or revalidated with the server.
+  lastAccess: number // Timestamp the file was last read from the cache.
+  hits: number // Number of times the file has been read from the cache.
+  width: number | null
+  height: number | null
+}
+
+interface CacheManifestFile {
+  version: number
+  entries: {
+    [fileName: string]: CacheEntry
+  }
+  aliases?: {
+    [fileName: string]: string // Stored file name of a requested file name, missing from manifests written by older versions.
+  }
+}
+
+export const manifestFileName = 'manifest.json'
+
+const manifestVersion = 1
+
+/**
+ * Creates a manifest entry, fields that are not provided are unknown.
+ *
+ * @param entry {Object} - known entry fields.
+ * @returns {CacheEntry}
+ */
+export const createCacheEntry = (
+  entry: Pick<CacheEntry, 'fileName'> & Partial<CacheEntry>,
+): CacheEntry => {
+  const now = Date.now()
+
+  return {
+    url: null,
+    permanent: false,
+    size: 0,
+    contentType: null,
+    etag: null,
+    lastModified: null,
+    cacheControl: null,
+    expires: null,
+    expiresAt: null,
+    maxAge: null,
+    createdAt: now,
+    validatedAt: now,
+    lastAccess: now,
+    hits: 0,
+    width: null,
+    height: null,
+    ...entry,
+  }
+}
+
+export class CacheManifest {
+  baseFilePath: string
+  permanentDirName: string
+  entries: {
+    [fileName: string]: CacheEntry
+  } = {}
+  aliases: {
+    [fileName: string]: string
+  } = {}
+  saving: Promise<void> = Promise.resolve()
+  saveQueued = false
+
+  /**
+   *
+   * Loads the manifest stored in baseFilePath, rebuilding it if it is missing or corrupt.
+   *
+   * @param baseFilePath {String} - the cache directory.
+   * @param permanentDirName {String} - name of the sub directory used for permanent files.
+   * @returns {Promise<CacheManifest>}
+   */
+  static async load(baseFilePath: string, permanentDirName: string) {
+    const manifest = new CacheManifest(baseFilePath, permanentDirName)
+
+    try {
+      const contents: CacheManifestFile = JSON.parse(
+        await RNFS.readFile(baseFilePath + manifestFileName, 'utf8'),
+      )
+
+      if (contents.version !== manifestVersion || typeof contents.entries !== 'object') {
+        throw new Error('Unsupported manifest')
+      }
+
+      // Entries written by older versions may be missing fields
+      Object.values(contents.entries).forEach((entry) => {
+        manifest.entries[entry.fileName] = createCacheEntry(entry)
+      })
+      manifest.aliases = contents.aliases || {}
+    } catch (error) {
+      await manifest.rebuild()
+    }
+
+    return manifest
+  }
+
+  constructor(baseFilePath: string, permanentDirName: string) {
+    this.baseFilePath = baseFilePath
+    this.permanentDirName = permanentDirName
+  }
+
+  /**
+   *
+   * Recreates the entries from the contents of the cache directory.
+   *
+   * @returns {Promise}
+   */
+  async rebuild() {
+    this.entries = {}
+    this.aliases = {}
+
+    // Evictable files take precedence over permanent files with the same name, matching FileSystem lookups.
+    for (const permanent of [true, false]) {
+      const dirContents = await RNFS.readDir(
+        this.baseFilePath + (permanent ? this.permanentDirName + '/' : ''),
+      ).catch(() => [])
+
+      dirContents
+        .filter((item) => item.isFile() && item.name !== manifestFileName)
+        .forEach((item) => {
+          const time = item.mtime?.getTime() ?? Date.now()
+
+          this.entries[item.name] = createCacheEntry({
+            fileName: item.name,
+            permanent,
+            size: parseInt(item.size),
+            createdAt: time,
+            validatedAt: time,
+            lastAccess: time,
+          })
+        })
+    }
+
+    return this.save()
+  }
+
+  /**
+   *
+   * Gets the name a file is stored under.
+   *
+   * @param fileName {String} - the requested or stored file name.
+   * @returns {String} - the stored file name, fileName itself if it is not an alias.
+   */
+  resolve(fileName: string) {
+    return this.aliases[fileName] ?? fileName
+  }
+
+  /**
+   *
+   * Gets the requested file names that are stored under a file name.
+   *
+   * @param storedFileName {String} - the stored file name.
+   * @returns {Array<String>}
+   */
+  aliasesOf(storedFileName: string) {
+    return Object.keys(this.aliases).filter((fileName) => this.aliases[fileName] === storedFileName)
+  }
+
+  /**
+   *
+   * Records the name a requested file name is stored under.
+   *
+   * @param fileName {String} - the requested file name.
+   * @param storedFileName {String} - the stored file name.
+   * @returns {Promise}
+   */
+  setAlias(fileName: string, storedFileName: string) {
+    if (fileName === storedFileName) {
+      delete this.aliases[fileName]
+    } else {
+      this.aliases[fileName] = storedFileName
+    }
+    return this.save()
+  }
+
+  get(fileName: string): CacheEntry | undefined {
+    return this.entries[this.resolve(fileName)]
+  }
+
+  values() {
+    return Object.values(this.entries)
+  }
+
+  set(entry: CacheEntry) {
+    this.entries[entry.fileName] = entry
+    return this.save()
+  }
+
+  update(fileName: string, changes: Partial<CacheEntry>) {
+    fileName = this.resolve(fileName)
+
+    if (!this.entries[fileName]) {
+      return this.saving
+    }
+
+    this.entries[fileName] = {
+      ...this.entries[fileName],
+      ...changes,
+    }
+    return this.save()
+  }
+
+  delete(fileName: string) {
+    const storedFileName = this.resolve(fileName)
+
+    delete this.entries[storedFileName]
+    delete this.aliases[fileName]
+    this.aliasesOf(storedFileName).forEach((alias) => delete this.aliases[alias])
+    return this.save()
+  }
+
+  clear() {
+    this.entries = {}
+    this.aliases = {}
+    return this.save()
+  }
+
+  /**
+   *
+   * Writes the manifest to disk.
+   * Writes are serialized and any changes made while a write is queued are included in that write.
+   *
+   * @returns {Promise} - promise that resolves once the current state has been written.
+   */
+  save() {
+    if (!this.saveQueued) {
+      this.saveQueued = true
+
+      this.saving = this.saving.then(async () => {
+        this.saveQueued = false
+
+        const contents: CacheManifestFile = {
+          version: manifestVersion,
+          entries: this.entries,
+          aliases: this.aliases,
+        }
+
+        try {
+          if (await RNFS.exists(this.baseFilePath)) {
+            await RNFS.writeFile(
+              this.baseFilePath + manifestFileName,
+              JSON.stringify(contents),
+              'utf8',
+            )
+          }
+        } catch (error) {
+          // The manifest is rebuilt on the next load if it could not be written.
+        }
+      })
+    }
+
+    return this.saving
+  }
+}
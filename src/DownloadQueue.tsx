@@ -0,0 +1,125 @@
+/**
+ *
+ * Schedules downloads so that no more than a maximum number run at the same time.
+ *
+ * Queued downloads are started in order of priority, downloads with the same priority are started in the order they were queued.
+ * A queued download is removed from the queue when its observable is unsubscribed, e.g. once no component is waiting for the
+ * file any more.
+ *
+ */
+
+import { Observable } from 'rxjs'
+
+interface QueuedDownload {
+  key: string
+  priority: number
+  order: number
+  start: () => void
+}
+
+export class DownloadQueue {
+  concurrency: number
+  running = 0
+  queue: QueuedDownload[] = []
+  queued = 0
+
+  constructor(concurrency: number) {
+    this.concurrency = concurrency
+  }
+
+  /**
+   *
+   * Sets the maximum number of downloads that run at the same time.
+   *
+   * @param concurrency {Number} - maximum number of concurrent downloads.
+   */
+  setConcurrency(concurrency: number) {
+    this.concurrency = concurrency
+    this._next()
+  }
+
+  /**
+   *
+   * Queues a download, the download is started once a slot is free.
+   *
+   * @param key {String} - identifies the download, used to prioritize it while it is queued.
+   * @param task {Function} - starts the download.
+   * @param priority {Number} - downloads with a higher priority are started first. Defaults to 0.
+   * @returns {Observable} observable that emits the result of the download.
+   */
+  enqueue<T>(key: string, task: () => Promise<T>, priority = 0): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      const download: QueuedDownload = {
+        key,
+        priority,
+        order: this.queued++,
+        start: () => {
+          this.running++
+
+          task()
+            .then(
+              (result) => {
+                subscriber.next(result)
+                subscriber.complete()
+              },
+              (error) => subscriber.error(error),
+            )
+            .then(() => {
+              this.running--
+              this._next()
+            })
+        },
+      }
+
+      this.queue.push(download)
+      this._next()
+
+      return () => this._remove(download)
+    })
+  }
+
+  /**
+   *
+   * Raises the priority of the queued downloads of a key.
+   *
+   * @param key {String} - identifies the download.
+   * @param priority {Number} - the new priority, lower priorities are ignored.
+   */
+  prioritize(key: string, priority: number) {
+    this.queue
+      .filter((download) => download.key === key)
+      .forEach((download) => {
+        download.priority = Math.max(download.priority, priority)
+      })
+  }
+
+  /**
+   *
+   * Starts queued downloads while there are free slots.
+   *
+   * @private
+   */
+  _next() {
+    while (this.running < this.concurrency && this.queue.length) {
+      const next = this.queue.reduce((a, b) =>
+        b.priority > a.priority || (b.priority === a.priority && b.order < a.order) ? b : a,
+      )
+
+      this._remove(next)
+      next.start()
+    }
+  }
+
+  /**
+   *
+   * @param download {QueuedDownload} - the download to remove from the queue.
+   * @private
+   */
+  _remove(download: QueuedDownload) {
+    const index = this.queue.indexOf(download)
+
+    if (index !== -1) {
+      this.queue.splice(index, 1)
+    }
+  }
+}
@@ -7,31 +7,410 @@
  *
  */
 
-import { Platform } from 'react-native'
+import { Image, Platform } from 'react-native'
 import pathLib from 'path'
 import RNFS from 'react-native-fs'
 import sha1 from 'crypto-js/sha1'
 import URL from 'url-parse'
-import { from, Observable, of, ReplaySubject } from 'rxjs'
+import {
+  BehaviorSubject,
+  from,
+  Observable,
+  of,
+  ReplaySubject,
+  Subject,
+  Subscription,
+  throwError,
+  timer,
+} from 'rxjs'
 import {
   switchMap,
   catchError,
-  mapTo,
   publishReplay,
   refCount,
   mergeMap,
-  map,
   filter,
   delayWhen,
   concatAll,
   take,
+  map,
+  finalize,
 } from 'rxjs/operators'
 import uuid from 'react-native-uuid'
 import { CacheStrategy } from '.'
+import { CacheEntry, CacheManifest, createCacheEntry } from './CacheManifest'
+import { CacheKeyFunction } from './CacheKey'
+import { DownloadQueue } from './DownloadQueue'
+import { CacheError, toCacheError } from './CacheError'
+import { matchesIntegrity } from './Integrity'
+import {
+  decodeBase64,
+  detectImageType,
+  getImageTypeFromExtension,
+  ImageType,
+  imageTypeExtensions,
+  imageTypes,
+  signatureLength,
+} from './ImageType'
+
+/**
+ * loading: the file is not cached and is being downloaded, path is null.
+ * cached: the file is served from disk, or has been downloaded for the first time.
+ * revalidating: the cached file is served while the server is asked whether it has changed.
+ * updated: the server responded with a new version of the cached file.
+ * notModified: the server responded that the cached file has not changed.
+ * error: the file could not be loaded, or a cached file could not be revalidated in which case path is the cached file.
+ * unlinked: the file was removed from the cache, e.g. by flush(), path is null and the next request downloads it again.
+ */
+export type CacheFileStatus =
+  | 'loading'
+  | 'cached'
+  | 'revalidating'
+  | 'updated'
+  | 'notModified'
+  | 'error'
+  | 'unlinked'
 
 export interface CacheFileInfo {
   path: string | null
   fileName: string
+  status: CacheFileStatus
+  origin: 'disk' | 'network' | null // Whether the status comes from the cache directory or a request to the server, null while loading.
+  statusCode: number | null // Response status code of the request, null if there was no response.
+  requestedAt: number // Timestamp the request that led to this status started.
+  timestamp: number // Timestamp of this status.
+  error?: CacheError // Why the file could not be loaded, set if the status is error.
+}
+
+/**
+ * Sorts cache entries in the order they should be deleted when the cache is pruned.
+ */
+export type EvictionComparator = (a: CacheEntry, b: CacheEntry) => number
+
+/**
+ * fifo: oldest downloads first.
+ * lru: least recently used first.
+ * lfu: least frequently used first.
+ * size: largest files first.
+ */
+export type EvictionPolicy = 'fifo' | 'lru' | 'lfu' | 'size' | EvictionComparator
+
+/**
+ * Called before every download, resolves to the request headers to send, e.g. with a fresh auth token.
+ */
+export type BeforeRequestHook = (
+  url: string,
+  headers: { [name: string]: string },
+) => Promise<{ [name: string]: string }>
+
+/**
+ * Called when a download is rejected with 401 or 403, resolves to true once credentials are refreshed to retry the download once.
+ * A rejection fails the download with the 401 or 403 response.
+ */
+export type AuthFailureHook = (url: string, statusCode: number) => Promise<boolean>
+
+export interface RetryPolicy {
+  maxAttempts: number // Maximum number of attempts of a download, 1 disables retries.
+  baseDelay: number // Delay before the first retry in milliseconds, doubled for each further attempt.
+  maxDelay: number // Maximum delay between attempts in milliseconds.
+  jitter: number // Fraction of the delay that is randomised, between 0 and 1.
+  retryableStatusCodes: number[] // Response status codes that are retried.
+  retryNetworkErrors: boolean // Whether downloads that fail without a response are retried.
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.5,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+}
+
+export interface FileSystemOptions {
+  evictionPolicy?: EvictionPolicy // How pruneCache() chooses which files to delete. Defaults to 'lru'.
+  onBeforeRequest?: BeforeRequestHook | null
+  onAuthFailure?: AuthFailureHook | null
+  cacheKey?: CacheKeyFunction | null // Maps a url to the key its file name is derived from. Defaults to the full url.
+  maxConcurrentDownloads?: number | null // Maximum number of downloads that run at the same time, shared by all instances. Defaults to 6.
+  retryPolicy?: Partial<RetryPolicy> | null // How failed downloads are retried, merged with defaultRetryPolicy.
+  allowedImageTypes?: ImageType[] | null // Image types that downloads are accepted as, detected from their leading bytes. Defaults to all image types.
+  accept?: string | null // Accept header sent with downloads that do not set one, e.g. 'image/avif,image/webp,image/*'. Defaults to none.
+}
+
+export interface DownloadProgress {
+  fileName: string
+  bytesWritten: number
+  contentLength: number // -1 if the response did not specify a Content-Length.
+}
+
+/**
+ * Events of the cache, e.g. to measure the hit ratio and the bytes that were not downloaded.
+ * Sizes are in bytes, durations in milliseconds and timestamp is when the event occurred.
+ *
+ * hit: a requested file was found on disk, size is the size of the file.
+ * miss: a requested file was not found on disk and is downloaded.
+ * downloadStart: a file is requested from the server, revalidation is true if a cached file is revalidated.
+ * downloadComplete: a file that was not cached has been downloaded, the duration includes the time it was queued.
+ * downloadFail: a file that was not cached could not be downloaded.
+ * revalidate: a cached file has been revalidated, size is the bytes downloaded if it was updated, otherwise the size of the cached file.
+ * prune: files were deleted by pruneCache to keep the cache below its prune limit.
+ * unlink: a file or directory of the cache was deleted, size is the size of the files that were removed.
+ * flush: the whole cache directory was deleted, size is the size of the files that were removed.
+ *
+ * Files that are already requested by another component are shared, they are only counted once as a hit or miss.
+ * A download that is cancelled because no component is waiting for it anymore does not complete or fail.
+ */
+export type CacheEvent =
+  | {
+      type: 'hit'
+      url: string
+      fileName: string
+      size: number
+      duration: number
+      timestamp: number
+    }
+  | { type: 'miss'; url: string; fileName: string; duration: number; timestamp: number }
+  | {
+      type: 'downloadStart'
+      url: string
+      fileName: string
+      revalidation: boolean
+      timestamp: number
+    }
+  | {
+      type: 'downloadComplete'
+      url: string
+      fileName: string
+      size: number
+      duration: number
+      statusCode: number
+      timestamp: number
+    }
+  | {
+      type: 'downloadFail'
+      url: string
+      fileName: string
+      error: CacheError
+      duration: number
+      timestamp: number
+    }
+  | {
+      type: 'revalidate'
+      url: string
+      fileName: string
+      result: 'updated' | 'notModified' | 'error'
+      size: number
+      duration: number
+      statusCode: number | null
+      error?: CacheError
+      timestamp: number
+    }
+  | {
+      type: 'prune'
+      entries: { url: string | null; fileName: string; size: number }[]
+      size: number
+      duration: number
+      timestamp: number
+    }
+  | {
+      type: 'unlink' | 'flush'
+      path: string
+      count: number
+      size: number
+      duration: number
+      timestamp: number
+    }
+
+export interface CacheRequestOptions {
+  permanent?: boolean // Store the file in the permanent tier which is never pruned. Defaults to false.
+  maxAge?: number | null // Time-to-live of the cached file in seconds, expired files are downloaded again. Defaults to no expiry.
+  staleWhileRevalidate?: boolean // Whether an expired file is served while it is downloaded again, otherwise nothing is emitted until the download completes. Defaults to true.
+  headers?: { [name: string]: string } // Request headers sent with every download and revalidation of the file, e.g. Authorization.
+  cacheKey?: string // Key the file name is derived from, overrides the cacheKey function.
+  priority?: number // Queued downloads with a higher priority are started first. Defaults to 0.
+  integrity?: string | null // Expected hash of the file, e.g. 'sha256-...', a download that does not match is not cached. Defaults to none.
+}
+
+export interface PrefetchOptions {
+  concurrency?: number // Maximum number of urls requested at the same time. Defaults to the maximum number of concurrent downloads.
+  strategy?: CacheStrategy // How urls that are already cached are revalidated. Defaults to 'immutable', cached files are not requested again.
+  permanent?: boolean // Store the files in the permanent tier which is never pruned. Defaults to false.
+  priority?: number // Queued downloads with a higher priority are started first. Defaults to 0.
+}
+
+export interface PrefetchProgress {
+  total: number // Number of urls.
+  completed: number // Number of urls that have been cached.
+  failed: number // Number of urls that could not be cached.
+  bytesWritten: number // Bytes downloaded so far.
+}
+
+export interface PrefetchResult {
+  url: string
+  path: string | null // Local path of the cached file, null if the url failed or was cancelled.
+  error?: CacheError // Why the url could not be cached.
+  cancelled: boolean // Whether the prefetch was cancelled before the url settled.
+}
+
+export interface PrefetchHandle {
+  progress: Observable<PrefetchProgress> // Emits the current progress on subscription and whenever it changes, completes once every url has settled.
+  results: Promise<PrefetchResult[]> // Resolves to the results in the order of the urls once every url has settled or the prefetch is cancelled.
+  cancel(): void // Stops the urls that have not settled, downloads that no component is waiting for are cancelled.
+}
+
+export interface CacheStats {
+  totalBytes: number // Size of every cached file in bytes, including permanent files.
+  permanentBytes: number // Size of the permanent files in bytes, which do not count towards the prune limit.
+  entryCount: number // Number of cached files.
+  lockedCount: number // Number of cached files that are rendered by a component, which are not pruned.
+  pruneLimit: number // Size in bytes the evictable files are pruned to @see {FileSystem.cachePruneTriggerLimit}.
+}
+
+export interface CacheEntryInfo {
+  url: string | null // Source url, null if it is unknown because the manifest was rebuilt.
+  fileName: string // Name the file is stored under.
+  size: number // Size in bytes.
+  mtime: number // Timestamp the file was written to the cache.
+  lastAccess: number // Timestamp the file was last read from the cache.
+  locked: boolean // Whether the file is rendered by a component.
+  permanent: boolean // Whether the file is in the permanent tier.
+}
+
+/**
+ * Minimum interval between download progress events in milliseconds.
+ */
+const progressInterval = 100
+
+/**
+ * Name of the sub directory of baseFilePath used for permanent files, pruneCache() never deletes files in this directory.
+ */
+const permanentDirName = 'permanent'
+
+/**
+ * Name of the sub directory of baseFilePath that downloads are written to, a file is moved into the cache once its download has succeeded.
+ */
+const tempDirName = 'tmp'
+
+/**
+ * Gets a response header value, header names are case insensitive.
+ *
+ * @param headers {Object} - response headers.
+ * @param name {String} - lower case header name.
+ */
+const getHeader = (headers: { [name: string]: string } | undefined, name: string) => {
+  const key = Object.keys(headers || {}).find((header) => header.toLowerCase() === name)
+  return headers && key ? headers[key] : null
+}
+
+/**
+ * Gets the caching metadata of a response.
+ * The freshness lifetime is taken from the Cache-Control max-age directive, less the Age the response has already spent in
+ * shared caches such as a CDN (RFC 7234 4.2.3), falling back to the Expires header.
+ * Responses with no-cache or no-store directives are stale immediately.
+ *
+ * @param headers {Object} - response headers.
+ * @param now {Number} - timestamp the response was received.
+ */
+const getCacheHeaders = (headers: { [name: string]: string } | undefined, now: number) => {
+  const cacheControl = getHeader(headers, 'cache-control')
+  const expires = getHeader(headers, 'expires')
+  const directives = (cacheControl || '')
+    .toLowerCase()
+    .split(',')
+    .map((directive) => directive.trim())
+  const maxAge = directives.find((directive) => directive.startsWith('max-age='))
+
+  let expiresAt: number | null = null
+  if (directives.includes('no-cache') || directives.includes('no-store')) {
+    expiresAt = now
+  } else if (maxAge) {
+    const lifetime = parseInt(maxAge.substring('max-age='.length)) || 0
+    const age = parseInt(getHeader(headers, 'age') || '') || 0
+    expiresAt = now + Math.max(0, lifetime - age) * 1000
+  } else if (expires) {
+    expiresAt = Date.parse(expires) || now
+  }
+
+  return {
+    etag: getHeader(headers, 'etag'),
+    lastModified: getHeader(headers, 'last-modified'),
+    cacheControl,
+    expires,
+    expiresAt,
+  }
+}
+
+/**
+ * Gets the conditional request headers used to revalidate a cache entry.
+ * Responses with the no-store directive are always downloaded again.
+ *
+ * @param entry {CacheEntry} - the manifest entry of the cached file.
+ */
+const getValidators = (entry: CacheEntry | undefined) => {
+  const headers: { [name: string]: string } = {}
+
+  if (entry && !/no-store/i.test(entry.cacheControl || '')) {
+    if (entry.etag) {
+      headers['if-none-match'] = entry.etag
+    }
+    if (entry.lastModified) {
+      headers['if-modified-since'] = entry.lastModified
+    }
+  }
+
+  return headers
+}
+
+export const evictionComparators: { [policy: string]: EvictionComparator } = {
+  fifo: (a, b) => a.createdAt - b.createdAt,
+  lru: (a, b) => a.lastAccess - b.lastAccess,
+  lfu: (a, b) => a.hits - b.hits || a.lastAccess - b.lastAccess,
+  size: (a, b) => b.size - a.size,
+}
+
+/**
+ * Gets the delay before an attempt of a download is retried.
+ * Part of the delay is randomised so that downloads that failed together are not all retried at the same time.
+ *
+ * @param policy {RetryPolicy} - the retry policy.
+ * @param attempt {Number} - the attempt that failed, starting at 1.
+ * @returns {Number} delay in milliseconds.
+ */
+export const getRetryDelay = ({ baseDelay, maxDelay, jitter }: RetryPolicy, attempt: number) => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1))
+  return delay * (1 - jitter * Math.random())
+}
+
+/**
+ * Whether a cache entry is older than its time-to-live.
+ *
+ * @param entry {CacheEntry} - the manifest entry of the cached file.
+ * @param now {Number} - current timestamp.
+ */
+const isExpired = (
+  { maxAge, validatedAt }: Pick<CacheEntry, 'maxAge' | 'validatedAt'>,
+  now: number,
+) => maxAge !== null && validatedAt + maxAge * 1000 <= now
+
+/**
+ * Creates the info emitted for a file, fields that are not provided are unknown.
+ *
+ * @param info {Object} - known info fields.
+ * @returns {CacheFileInfo}
+ */
+export const createCacheFileInfo = (
+  info: Pick<CacheFileInfo, 'path' | 'fileName' | 'status'> & Partial<CacheFileInfo>,
+): CacheFileInfo => {
+  const now = Date.now()
+
+  return {
+    origin: null,
+    statusCode: null,
+    requestedAt: now,
+    timestamp: now,
+    ...info,
+  }
 }
 
 /**
@@ -77,8 +456,54 @@ export class FileSystem {
   static cacheObservables: {
     [key: string]: ReplaySubject<CacheFileInfo>
   } = {}
+  /**
+   * Progress of all downloads, components requesting the same file share its progress events.
+   */
+  static progress$ = new Subject<DownloadProgress>()
+  /**
+   * Events of all instances @see {CacheEvent}.
+   */
+  static events$ = new Subject<CacheEvent>()
+  /**
+   * Downloads of all instances are scheduled by a single queue to limit the number of concurrent downloads.
+   */
+  static downloadQueue = new DownloadQueue(6)
+  /**
+   * Downloads in progress, used to cancel a download when the last lock on its file is released.
+   */
+  static downloadJobs: {
+    [key: string]: {
+      jobId: number | null // Null while the request headers are prepared, before the download has started.
+      path: string // The temporary file the download is written to.
+    }
+  } = {}
+  /**
+   * Internal subscriptions that resolve the file of each observable, see cacheObservables.
+   */
+  static cacheSubscriptions: {
+    [key: string]: Subscription
+  } = {}
+  /**
+   * Files whose last request failed, the next request for the file is attempted again.
+   */
+  static cacheFailures: {
+    [key: string]: boolean
+  } = {}
+  /**
+   * Manifests are shared by all FileSystem instances using the same base file path, they are loaded from disk once.
+   */
+  static manifests: {
+    [baseFilePath: string]: Promise<CacheManifest>
+  } = {}
   baseFilePath: string
   cachePruneTriggerLimit: number
+  evictionPolicy: EvictionPolicy
+  onBeforeRequest: BeforeRequestHook | null
+  onAuthFailure: AuthFailureHook | null
+  cacheKey: CacheKeyFunction | null
+  retryPolicy: RetryPolicy
+  allowedImageTypes: ImageType[]
+  accept: string | null
 
   static lockCacheFile(fileName: string, componentId: string) {
     // If file is already locked, add additional component lock, else create initial file lock.
@@ -103,14 +528,70 @@ export class FileSystem {
         if (FileSystem.cacheObservables[fileName]) {
           delete FileSystem.cacheObservables[fileName]
         }
+
+        // Nothing is waiting for the file so a queued or in-flight download is no longer needed.
+        if (FileSystem.cacheSubscriptions[fileName]) {
+          FileSystem.cacheSubscriptions[fileName].unsubscribe()
+          delete FileSystem.cacheSubscriptions[fileName]
+        }
+        delete FileSystem.cacheFailures[fileName]
+        FileSystem.cancelDownload(fileName)
       }
     }
   }
 
-  constructor(cachePruneTriggerLimit: number | null, fileDirName: string | null) {
+  /**
+   *
+   * Stops the download of a file and removes its partially written temporary file.
+   * A cached file that is being revalidated is kept, a later request for the file downloads it again.
+   *
+   * @param fileName {String} - the cache file name.
+   * @returns {Promise}
+   */
+  static async cancelDownload(fileName: string) {
+    const job = FileSystem.downloadJobs[fileName]
+
+    if (!job) {
+      return
+    }
+
+    // A download that has not started yet is not started once its request headers are prepared.
+    delete FileSystem.downloadJobs[fileName]
+    if (job.jobId === null) {
+      return
+    }
+    RNFS.stopDownload(job.jobId)
+
+    try {
+      await RNFSUnlinkIfExists(job.path)
+    } catch (error) {
+      // Stray temporary files are removed when the manifest is next loaded.
+    }
+  }
+
+  constructor(
+    cachePruneTriggerLimit: number | null,
+    fileDirName: string | null,
+    options: FileSystemOptions = {},
+  ) {
     this.cachePruneTriggerLimit = cachePruneTriggerLimit || 1024 * 1024 * 15 // Maximum size of image file cache in bytes before pruning occurs. Defaults to 15 MB.
     fileDirName = fileDirName || 'react-native-image-cache-hoc' // Namespace local file writing to this folder.
     this.baseFilePath = this._setBaseFilePath(fileDirName)
+    this.evictionPolicy = options.evictionPolicy || 'lru' // How pruneCache() chooses which files to delete.
+    this.onBeforeRequest = options.onBeforeRequest || null // Optional hook to modify request headers before each download.
+    this.onAuthFailure = options.onAuthFailure || null // Optional hook to refresh credentials when a download is unauthorized.
+    this.cacheKey = options.cacheKey || null // Optional function to derive file names from a key other than the full url.
+    this.retryPolicy = { ...defaultRetryPolicy, ...options.retryPolicy } // How failed downloads are retried.
+    this.allowedImageTypes = options.allowedImageTypes || imageTypes // Downloads of other types are discarded.
+    this.accept = options.accept || null // Optional Accept header to negotiate the image format with the server.
+
+    if (options.maxConcurrentDownloads) {
+      FileSystem.downloadQueue.setConcurrency(options.maxConcurrentDownloads)
+    }
+
+    if (typeof this.evictionPolicy !== 'function' && !evictionComparators[this.evictionPolicy]) {
+      throw new Error(`Invalid EvictionPolicy ${this.evictionPolicy} is unhandled`)
+    }
   }
 
   /**
@@ -160,6 +641,246 @@ export class FileSystem {
     }
   }
 
+  /**
+   *
+   * Gets the manifest of the files stored in baseFilePath, loading it from disk if this is the first request.
+   * Temporary files left by downloads that were interrupted, e.g. when the app was closed, are removed before it is loaded.
+   *
+   * @returns {Promise<CacheManifest>}
+   */
+  manifest() {
+    if (!FileSystem.manifests[this.baseFilePath]) {
+      FileSystem.manifests[this.baseFilePath] = RNFSUnlinkIfExists(this.baseFilePath + tempDirName)
+        .catch(() => undefined)
+        .then(() => CacheManifest.load(this.baseFilePath, permanentDirName))
+    }
+
+    return FileSystem.manifests[this.baseFilePath]
+  }
+
+  /**
+   *
+   * Records the dimensions of a cached image in the manifest.
+   *
+   * @param fileName {String} - the cache file name.
+   * @param width {Number} - image width.
+   * @param height {Number} - image height.
+   * @returns {Promise}
+   */
+  async setImageSize(fileName: string, width: number, height: number) {
+    const manifest = await this.manifest()
+    return manifest.update(fileName, { width, height })
+  }
+
+  /**
+   *
+   * Gets the dimensions of a cached image, measuring and recording them in the manifest if they are not known,
+   * e.g. the first time the file is loaded after it was downloaded.
+   *
+   * @param fileName {String} - the cache file name.
+   * @param path {String} - local uri of the file.
+   * @returns {Promise} promise that resolves to the width and height of the image.
+   */
+  async getImageSize(fileName: string, path: string): Promise<{ width: number; height: number }> {
+    const entry = (await this.manifest()).get(fileName)
+    if (entry && entry.width !== null && entry.height !== null) {
+      return { width: entry.width, height: entry.height }
+    }
+
+    const size = await new Promise<{ width: number; height: number }>((resolve, reject) =>
+      Image.getSize(path, (width, height) => resolve({ width, height }), reject),
+    )
+    await this.setImageSize(fileName, size.width, size.height)
+
+    return size
+  }
+
+  /**
+   *
+   * Gets the path of a cache file relative to baseFilePath, permanent files are namespaced to their own sub directory.
+   *
+   * @param fileName {String} - the cache file name.
+   * @param permanent {Boolean} - whether the file belongs to the permanent tier.
+   * @returns {String} - local relative file path.
+   * @private
+   */
+  _getRelativePath(fileName: string, permanent = false) {
+    return permanent ? permanentDirName + '/' + fileName : fileName
+  }
+
+  /**
+   *
+   * Finds which tier a cache file is stored in, following the file name it is stored under if that differs.
+   * If the file is requested as permanent but is currently stored in the evictable tier it is moved to the permanent tier.
+   *
+   * @param fileName {String} - the cache file name.
+   * @param permanent {Boolean} - whether the file should be promoted to the permanent tier.
+   * @returns {Promise} - promise that resolves to the stat, tier and absolute path of the file, or null if it does not exist.
+   * @private
+   */
+  async _resolveFile(fileName: string, permanent = false) {
+    const storedFileName = (await this.manifest()).resolve(fileName)
+
+    for (const inPermanentTier of [false, true]) {
+      const path = this.baseFilePath + this._getRelativePath(storedFileName, inPermanentTier)
+      const stat = await RNFS.stat(path).catch(() => null)
+
+      if (stat !== null) {
+        if (permanent && !inPermanentTier) {
+          await this._moveToTier(storedFileName, true)
+        }
+
+        return {
+          stat,
+          permanent: permanent || inPermanentTier,
+          path:
+            this.baseFilePath + this._getRelativePath(storedFileName, permanent || inPermanentTier),
+        }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   *
+   * Records that a file found on disk has been accessed, ensuring it has a manifest entry and that its source url is known.
+   *
+   * @param url {String} - source url of the file.
+   * @param file {Object} - the result of _resolveFile().
+   * @param maxAge {Number} - time-to-live of the file in seconds, the recorded value is kept if undefined.
+   * @returns {Promise}
+   * @private
+   */
+  async _recordCacheHit(
+    url: string,
+    {
+      stat,
+      permanent,
+      path,
+    }: { stat: { mtime: number; size: string }; permanent: boolean; path: string },
+    maxAge?: number | null,
+  ) {
+    const fileName = pathLib.basename(path)
+    const manifest = await this.manifest()
+    const entry: CacheEntry | undefined = manifest.get(fileName)
+    const now = Date.now()
+
+    if (!entry) {
+      const mtime = new Date(stat.mtime).getTime()
+
+      await manifest.set(
+        createCacheEntry({
+          url,
+          fileName,
+          permanent,
+          size: parseInt(stat.size) || 0,
+          maxAge: maxAge ?? null,
+          createdAt: mtime,
+          validatedAt: mtime,
+          lastAccess: now,
+          hits: 1,
+        }),
+      )
+    } else {
+      await manifest.update(fileName, {
+        url,
+        permanent,
+        maxAge: maxAge ?? entry.maxAge,
+        lastAccess: now,
+        hits: entry.hits + 1,
+      })
+    }
+  }
+
+  /**
+   *
+   * Records that a file has been accessed, used by the 'lru' and 'lfu' eviction policies.
+   *
+   * @param fileName {String} - the cache file name.
+   * @returns {Promise}
+   * @private
+   */
+  async _recordAccess(fileName: string) {
+    const manifest = await this.manifest()
+    return manifest.update(fileName, {
+      lastAccess: Date.now(),
+      hits: (manifest.get(fileName)?.hits ?? 0) + 1,
+    })
+  }
+
+  /**
+   *
+   * Moves a cache file between the evictable and permanent tiers.
+   *
+   * @param fileName {String} - the name the file is stored under @see {CacheManifest.resolve}.
+   * @param permanent {Boolean} - the destination tier.
+   * @returns {Promise} - boolean promise for if the file exists in the destination tier.
+   * @private
+   */
+  async _moveToTier(fileName: string, permanent: boolean) {
+    const source = this.baseFilePath + this._getRelativePath(fileName, !permanent)
+    const destination = this.baseFilePath + this._getRelativePath(fileName, permanent)
+    this._validatePath(destination, true)
+
+    if (!(await RNFS.exists(source))) {
+      return RNFS.exists(destination)
+    }
+
+    await RNFS.mkdir(pathLib.dirname(destination))
+    await RNFSUnlinkIfExists(destination)
+    await RNFS.moveFile(source, destination)
+
+    const manifest = await this.manifest()
+    await manifest.update(fileName, { permanent })
+
+    return true
+  }
+
+  /**
+   *
+   * Moves the cached file of a url between the evictable and permanent tiers.
+   * Moving a file to the evictable tier makes it subject to cache pruning again.
+   *
+   * @param url {String} - url of the cached file.
+   * @param permanent {Boolean} - whether the file should be stored permanently.
+   * @returns {Promise} - boolean promise for if the file was moved (false if the url has not been cached).
+   */
+  async setPermanent(url: string, permanent: boolean) {
+    return this._setTier(this.getFileNameFromUrl(url), permanent)
+  }
+
+  /**
+   *
+   * Moves a cache file between the evictable and permanent tiers and publishes its new path to the components of the file.
+   *
+   * @param fileName {String} - the cache file name @see {getFileNameFromUrl}.
+   * @param permanent {Boolean} - whether the file should be stored permanently.
+   * @returns {Promise} - boolean promise for if the file was moved (false if the file has not been cached).
+   * @private
+   */
+  async _setTier(fileName: string, permanent: boolean) {
+    const storedFileName = (await this.manifest()).resolve(fileName)
+
+    if (!(await this._moveToTier(storedFileName, permanent))) {
+      return false
+    }
+
+    // Publish to subscribers that the image for this url has moved
+    if (FileSystem.cacheObservables[fileName]) {
+      FileSystem.cacheObservables[fileName].next(
+        createCacheFileInfo({
+          path: 'file://' + this.baseFilePath + this._getRelativePath(storedFileName, permanent),
+          fileName,
+          status: 'cached',
+          origin: 'disk',
+        }),
+      )
+    }
+
+    return true
+  }
+
   /**
    *
    * Wrapper for https://github.com/joltup/rn-fetch-blob/wiki/File-System-Access-API#existspathstringpromise
@@ -174,20 +895,26 @@ export class FileSystem {
 
   /**
    *
-   * Creates a SHA1 hash filename from a url and normalizes extension.
+   * Creates a SHA1 hash filename from the cache key of a url and normalizes extension.
+   * Urls with the same cache key share a file, the cache key defaults to the full url.
+   *
+   * The extension is not validated, downloads are validated by their contents instead @see {_validateDownload}.
+   * Downloads are stored with the extension of their image type if it differs @see {_getStoredFileName}.
    *
    * @param url {String} - An absolute url.
-   * @throws error on invalid (non jpg, png, gif, bmp) url file type. NOTE file extension or content-type header does not guarantee file mime type. We are trusting that it is set correctly on the server side.
+   * @param cacheKey {String} - overrides the key derived from the url by the cacheKey function.
    * @returns fileName {string} - A SHA1 filename that is unique to the resource located at passed in URL and includes an appropriate extension.
    */
-  getFileNameFromUrl(url: string) {
+  getFileNameFromUrl(url: string, cacheKey?: string | null) {
     const urlParts = new URL(url)
     const urlExt = urlParts.pathname.split('.').pop()
 
     // react-native enforces Image src to default to a file extension of png
     const extension = urlExt === urlParts.pathname ? 'bin' : urlExt
 
-    return sha1(url).toString() + '.' + extension
+    const key = cacheKey ?? (this.cacheKey ? this.cacheKey(url) : url)
+
+    return sha1(key).toString() + '.' + extension
   }
 
   /**
@@ -196,17 +923,25 @@ export class FileSystem {
    * If the local file does not exist yet, the remote file is downloaded to local disk then the local filepath is returned.
    *
    * @param url {String} - url of file to download.
+   * @param permanent {Boolean} - whether the file should be stored permanently.
+   * @param options {CacheRequestOptions} - additional options for the request.
    * @returns {Promise<string|null>} promise that resolves to the local file path of downloaded url file.
    */
-  async getLocalFilePathFromUrl(url: string) {
-    const fileName = this.getFileNameFromUrl(url)
+  async getLocalFilePathFromUrl(url: string, permanent = false, options: CacheRequestOptions = {}) {
+    const fileName = this.getFileNameFromUrl(url, options.cacheKey)
     const requestId = uuid.v4()
 
     try {
       FileSystem.lockCacheFile(fileName, requestId)
 
-      const { path } = await this.observable(url, requestId, 'immutable', fileName)
-        .pipe(take(1))
+      const { path } = await this.observable(url, requestId, 'immutable', fileName, {
+        ...options,
+        permanent,
+      })
+        .pipe(
+          filter((info) => info.status !== 'loading'),
+          take(1),
+        )
         .toPromise()
 
       return path
@@ -215,6 +950,144 @@ export class FileSystem {
     }
   }
 
+  /**
+   *
+   * Caches a list of urls, e.g. to pre-warm the cache.
+   * Each url is held until its request has settled, including the revalidation of cached files by the mutable and http strategies.
+   *
+   * @param urls {Array<String>} - urls of the files to cache.
+   * @param options {PrefetchOptions} - concurrency, cache strategy, tier and download priority.
+   * @returns {PrefetchHandle} handle to observe the aggregate progress, await the results or cancel the prefetch.
+   */
+  prefetch(
+    urls: string[],
+    {
+      concurrency = FileSystem.downloadQueue.concurrency,
+      strategy = 'immutable',
+      permanent = false,
+      priority = 0,
+    }: PrefetchOptions = {},
+  ): PrefetchHandle {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('concurrency option must be a positive integer.')
+    }
+
+    if (strategy !== 'immutable' && strategy !== 'mutable' && strategy !== 'http') {
+      throw new Error("strategy option must be 'immutable', 'mutable' or 'http'.")
+    }
+
+    const results: PrefetchResult[] = urls.map((url) => ({ url, path: null, cancelled: true }))
+    const bytesWritten: { [fileName: string]: number } = {}
+    const progress$ = new BehaviorSubject<PrefetchProgress>({
+      total: urls.length,
+      completed: 0,
+      failed: 0,
+      bytesWritten: 0,
+    })
+
+    const updateProgress = (changes: Partial<PrefetchProgress>) =>
+      progress$.next({ ...progress$.value, ...changes })
+
+    const prefetchUrl = (url: string) =>
+      new Observable<CacheFileInfo | undefined>((subscriber) => {
+        const requestId = uuid.v4()
+        let fileName = ''
+        let info: CacheFileInfo | undefined
+        let subscription: Subscription
+
+        try {
+          fileName = this.getFileNameFromUrl(url)
+          FileSystem.lockCacheFile(fileName, requestId)
+
+          subscription = this.observable(url, requestId, strategy, fileName, {
+            permanent,
+            priority,
+          }).subscribe((value) => (info = value))
+        } catch (error) {
+          // A url that can not be requested is recorded as failed, the other urls are still cached.
+          FileSystem.unlockCacheFile(fileName, requestId)
+          subscriber.next(
+            createCacheFileInfo({
+              path: null,
+              fileName,
+              status: 'error',
+              error: toCacheError(error, 'invalidUrl'),
+            }),
+          )
+          subscriber.complete()
+          return
+        }
+
+        subscription.add(
+          this.progressObservable(fileName).subscribe((progress) => {
+            bytesWritten[fileName] = progress.bytesWritten
+            updateProgress({
+              bytesWritten: Object.values(bytesWritten).reduce((sum, bytes) => sum + bytes, 0),
+            })
+          }),
+        )
+
+        // The request has settled once it completes, a request that is already settled runs this immediately.
+        const settled = () => {
+          subscriber.next(info)
+          subscriber.complete()
+        }
+        if (FileSystem.cacheSubscriptions[fileName]) {
+          FileSystem.cacheSubscriptions[fileName].add(settled)
+        } else {
+          settled()
+        }
+
+        return () => {
+          subscription.unsubscribe()
+          FileSystem.unlockCacheFile(fileName, requestId)
+        }
+      })
+
+    let resolveResults: (results: PrefetchResult[]) => void = () => undefined
+    const promise = new Promise<PrefetchResult[]>((resolve) => (resolveResults = resolve))
+
+    const finish = () => {
+      progress$.complete()
+      resolveResults(results)
+    }
+
+    const subscription = from(urls.map((url, index) => ({ url, index })))
+      .pipe(
+        mergeMap(
+          ({ url, index }) => prefetchUrl(url).pipe(map((info) => ({ info, index }))),
+          concurrency,
+        ),
+      )
+      .subscribe({
+        next: ({ info, index }) => {
+          const path = info?.path ?? null
+
+          results[index] = {
+            url: urls[index],
+            path,
+            ...(info?.error ? { error: info.error } : {}),
+            cancelled: false,
+          }
+          updateProgress(
+            path
+              ? { completed: progress$.value.completed + 1 }
+              : { failed: progress$.value.failed + 1 },
+          )
+        },
+        complete: finish,
+      })
+
+    return {
+      progress: progress$.asObservable(),
+      results: promise,
+      cancel: () => {
+        subscription.unsubscribe()
+        finish()
+      },
+    }
+  }
+
   /**
    *
    * Manually move or copy a local file to the cache.
@@ -231,7 +1104,9 @@ export class FileSystem {
    */
   async cacheLocalFile(local: string, url: string, move = false, mtime?: Date, ctime?: Date) {
     const fileName = this.getFileNameFromUrl(url)
-    const path = this.baseFilePath + fileName
+    // Replace the file in whichever tier it is already stored in
+    const file = await this._resolveFile(fileName)
+    const path = file ? file.path : this.baseFilePath + this._getRelativePath(fileName)
     this._validatePath(path, true)
 
     if (!(await RNFS.exists(local))) {
@@ -258,18 +1133,34 @@ export class FileSystem {
       await RNFS.touch(path, mtime, ctime)
     } catch (error) {
       await RNFSUnlinkIfExists(path)
+      await (await this.manifest()).delete(fileName)
       return {
         url,
         path: null,
       }
     }
 
+    const stat = await RNFS.stat(path).catch(() => null)
+    await (await this.manifest()).set(
+      createCacheEntry({
+        url,
+        fileName: pathLib.basename(path),
+        permanent: file?.permanent ?? false,
+        size: parseInt(stat?.size ?? '0'),
+        lastModified: mtime ? mtime.toUTCString() : null,
+      }),
+    )
+
     // Publish to subscribers that the image for this url has been updated
     if (FileSystem.cacheObservables[fileName]) {
-      FileSystem.cacheObservables[fileName].next({
-        path: 'file://' + path,
-        fileName,
-      })
+      FileSystem.cacheObservables[fileName].next(
+        createCacheFileInfo({
+          path: 'file://' + path,
+          fileName,
+          status: 'updated',
+          origin: 'disk',
+        }),
+      )
     }
 
     return {
@@ -284,61 +1175,461 @@ export class FileSystem {
    *
    * @param url {String} - url of file to download.
    * @param fileName {String} - defaults to a sha1 hash of the url param with extension of same filetype.
-   * @returns {Observable<CacheFileInfo>} observable that resolves to an object that contains the local path of the downloaded file and the filename.
+   * @param headers {Object} - additional request headers.
+   * @param options {CacheRequestOptions} - the tier and time-to-live of the file.
+   * @returns {Observable<CacheFileInfo>} observable that resolves to an object that contains the local path of the downloaded file and the filename, or the error if the download failed.
    */
   fetchFile(
     url: string,
     fileName: string | null = null,
     headers?: { [key: string]: string },
+    { permanent = false, maxAge = null, priority = 0, integrity = null }: CacheRequestOptions = {},
   ): Observable<CacheFileInfo> {
-    fileName = fileName || this.getFileNameFromUrl(url)
-    const path = this.baseFilePath + fileName
-    this._validatePath(path, true)
+    const name = fileName || this.getFileNameFromUrl(url)
+    this._validatePath(this.baseFilePath + this._getRelativePath(name, permanent), true)
+
+    // The file is downloaded to a temporary file that is moved into place once the download has succeeded,
+    // so that a partially written file is never served.
+    const tempPath = this.baseFilePath + tempDirName + '/' + uuid.v4() + '-' + name
+
+    // Response headers are only available from the begin callback
+    let responseHeaders: { [name: string]: string } | undefined
+    let contentLength = -1
+    let cachedPath: string | null = null // Path of the file being revalidated.
+    let cachedSize = 0
+    const requestedAt = Date.now()
+    let startedAt = requestedAt
+
+    // A download of a file that is not cached completes or fails, a download of a cached file revalidates it.
+    const emitResult = (statusCode: number | null, size: number, error?: CacheError) => {
+      const duration = Date.now() - startedAt
+      const timestamp = Date.now()
+
+      if (cachedPath !== null) {
+        const result = error ? 'error' : statusCode === 304 ? 'notModified' : 'updated'
+        FileSystem.events$.next({
+          type: 'revalidate',
+          url,
+          fileName: name,
+          result,
+          size,
+          duration,
+          statusCode,
+          error,
+          timestamp,
+        })
+      } else if (error) {
+        FileSystem.events$.next({
+          type: 'downloadFail',
+          url,
+          fileName: name,
+          error,
+          duration,
+          timestamp,
+        })
+      } else {
+        FileSystem.events$.next({
+          type: 'downloadComplete',
+          url,
+          fileName: name,
+          size,
+          duration,
+          statusCode: statusCode ?? 200,
+          timestamp,
+        })
+      }
+    }
 
     return from(this.exists('')).pipe(
       delayWhen((cacheDirExists) =>
         // Logic here prunes cache directory on "cache" writes to ensure cache doesn't get too large.
         from(cacheDirExists ? this.pruneCache() : RNFS.mkdir(this.baseFilePath)),
       ),
-      mergeMap(() => from(RNFS.stat(path)).pipe(catchError(() => of(null)))),
-      // Hit network and download file to local disk.
-      mergeMap((stat) =>
+      // Stray temporary files are removed when the manifest is loaded, which has to happen before the directory is created.
+      delayWhen(() =>
+        from(this.manifest().then(() => RNFS.mkdir(this.baseFilePath + tempDirName))),
+      ),
+      delayWhen(() =>
+        from(permanent ? RNFS.mkdir(this.baseFilePath + permanentDirName) : Promise.resolve()),
+      ),
+      // The file may be stored with the extension of its image type rather than the requested one.
+      mergeMap(() =>
         from(
-          RNFS.downloadFile({
-            fromUrl: url,
-            toFile: path,
-            headers,
-          }).promise,
+          this.manifest().then(async (manifest) => {
+            const path =
+              this.baseFilePath + this._getRelativePath(manifest.resolve(name), permanent)
+            cachedSize = parseInt((await RNFS.stat(path)).size) || 0
+            return path
+          }),
+        ).pipe(catchError(() => of(null))),
+      ),
+      // Hit network and download file to local disk once the download queue has a free slot.
+      mergeMap((path) => {
+        cachedPath = path
+        startedAt = Date.now()
+        FileSystem.events$.next({
+          type: 'downloadStart',
+          url,
+          fileName: name,
+          revalidation: path !== null,
+          timestamp: startedAt,
+        })
+
+        return this._queueDownload(
+          url,
+          name,
+          tempPath,
+          this.accept && !getHeader(headers, 'accept')
+            ? { ...headers, Accept: this.accept }
+            : headers || {},
+          (res) => {
+            responseHeaders = res.headers
+            contentLength = res.contentLength
+          },
+          priority,
         ).pipe(
-          // Only need to emit or throw errors if the file has changed or this is the first download
-          filter((downloadResult) => stat === null || downloadResult.statusCode === 200),
-          map((downloadResult) => {
-            if (stat === null && downloadResult.statusCode !== 200) {
-              throw new Error('Request failed ' + downloadResult.statusCode)
+          mergeMap(async (downloadResult) => {
+            // The cached file is still valid, its freshness lifetime is renewed by the response.
+            if (cachedPath !== null && downloadResult.statusCode === 304) {
+              const now = Date.now()
+              const manifest = await this.manifest()
+              const entry = manifest.get(name)
+              const { etag, lastModified, ...received } = getCacheHeaders(responseHeaders, now)
+
+              // Only the headers sent with the 304 replace the stored ones (RFC 7234 4.3.4), the freshness lifetime
+              // is renewed from the merged directives.
+              const mergedHeaders: { [name: string]: string } = {}
+              const cacheControl = received.cacheControl ?? entry?.cacheControl
+              const expires = received.expires ?? entry?.expires
+              if (cacheControl) {
+                mergedHeaders['cache-control'] = cacheControl
+              }
+              if (expires) {
+                mergedHeaders.expires = expires
+              }
+              const age = getHeader(responseHeaders, 'age')
+              if (age) {
+                mergedHeaders.age = age
+              }
+
+              await manifest.update(name, {
+                cacheControl: cacheControl ?? null,
+                expires: expires ?? null,
+                expiresAt: getCacheHeaders(mergedHeaders, now).expiresAt,
+                ...(etag ? { etag } : {}),
+                ...(lastModified ? { lastModified } : {}),
+                maxAge,
+                validatedAt: now,
+              })
+              emitResult(304, cachedSize)
+
+              return createCacheFileInfo({
+                path: 'file://' + cachedPath,
+                fileName: name,
+                status: 'notModified',
+                origin: 'network',
+                statusCode: 304,
+                requestedAt,
+              })
             }
 
-            return {
-              path: 'file://' + path,
-              fileName: pathLib.basename(path),
+            if (downloadResult.statusCode !== 200) {
+              throw new CacheError('httpStatus', 'Request failed ' + downloadResult.statusCode, {
+                statusCode: downloadResult.statusCode,
+              })
+            }
+
+            const imageType = await this._validateDownload(
+              tempPath,
+              downloadResult.bytesWritten,
+              getHeader(responseHeaders, 'content-encoding') ? -1 : contentLength,
+              integrity,
+            )
+
+            const storedName = this._getStoredFileName(name, imageType)
+            const path = this.baseFilePath + this._getRelativePath(storedName, permanent)
+            this._validatePath(path, true)
+
+            await RNFSUnlinkIfExists(path)
+            await RNFS.moveFile(tempPath, path)
+
+            // The previous file is stored under another name if the server now responds with another image type.
+            const manifest = await this.manifest()
+            const previousName = manifest.resolve(name)
+            if (previousName !== storedName) {
+              await RNFSUnlinkIfExists(
+                this.baseFilePath + this._getRelativePath(previousName, permanent),
+              )
+              await manifest.delete(previousName)
             }
+
+            const now = Date.now()
+            await manifest.setAlias(name, storedName)
+            await manifest.set(
+              createCacheEntry({
+                url,
+                fileName: storedName,
+                permanent,
+                size: downloadResult.bytesWritten,
+                contentType: getHeader(responseHeaders, 'content-type'),
+                ...getCacheHeaders(responseHeaders, now),
+                maxAge,
+                createdAt: now,
+                validatedAt: now,
+                lastAccess: now,
+                hits: 1,
+              }),
+            )
+            emitResult(200, downloadResult.bytesWritten)
+
+            return createCacheFileInfo({
+              path: 'file://' + path,
+              fileName: name,
+              status: cachedPath !== null ? 'updated' : 'cached',
+              origin: 'network',
+              statusCode: 200,
+              requestedAt,
+            })
           }),
-        ),
-      ),
-      catchError(() =>
-        from(RNFSUnlinkIfExists(path)).pipe(
-          mapTo({
-            path: null,
-            fileName: pathLib.basename(path),
+        )
+      }),
+      // Errors that are not raised by the download itself come from writing to the cache directory.
+      // A cached file that fails to revalidate is kept as it has not been modified, the error is emitted with its path.
+      catchError((error) => {
+        const cacheError = toCacheError(error, 'diskWrite')
+        emitResult(cacheError.statusCode, cachedSize, cacheError)
+
+        return of(
+          createCacheFileInfo({
+            path: cachedPath !== null ? 'file://' + cachedPath : null,
+            fileName: name,
+            status: 'error',
+            origin: 'network',
+            statusCode: cacheError.statusCode,
+            requestedAt,
+            error: cacheError,
           }),
-        ),
-      ),
+        )
+      }),
+      // The temporary file only remains if the download did not succeed.
+      finalize(() => {
+        RNFSUnlinkIfExists(tempPath).catch(() => undefined)
+      }),
     )
   }
 
+  /**
+   *
+   * Verifies a downloaded file before it is moved into the cache.
+   *
+   * @param path {String} - local path of the downloaded file.
+   * @param bytesWritten {Number} - number of bytes written to the file.
+   * @param contentLength {Number} - expected number of bytes, -1 if unknown.
+   * @param integrity {String} - expected hash of the file, e.g. 'sha256-...', null to skip the check.
+   * @returns {Promise<ImageType>} promise that resolves to the image type detected from the leading bytes of the file.
+   * @throws CacheError of type validation if the file is truncated, is not an allowed image type or does not match the integrity.
+   * @private
+   */
+  async _validateDownload(
+    path: string,
+    bytesWritten: number,
+    contentLength: number,
+    integrity: string | null,
+  ) {
+    if (contentLength >= 0 && bytesWritten !== contentLength) {
+      throw new CacheError(
+        'validation',
+        `Download is incomplete, ${bytesWritten} of ${contentLength} bytes were written`,
+      )
+    }
+
+    // The extension and Content-Type are not trusted, e.g. a captive portal responds with an HTML page.
+    const imageType = detectImageType(
+      decodeBase64(await RNFS.read(path, signatureLength, 0, 'base64')),
+    )
+
+    if (imageType === null) {
+      throw new CacheError('validation', 'Download is not an image')
+    }
+    if (!this.allowedImageTypes.includes(imageType)) {
+      throw new CacheError('validation', `Download is a ${imageType} image which is not allowed`)
+    }
+
+    if (integrity) {
+      const contents = await RNFS.readFile(path, 'base64')
+      let matches: boolean
+
+      try {
+        matches = matchesIntegrity(contents, integrity)
+      } catch (error) {
+        throw toCacheError(error, 'validation')
+      }
+
+      if (!matches) {
+        throw new CacheError('validation', `Download does not match integrity ${integrity}`)
+      }
+    }
+
+    return imageType
+  }
+
+  /**
+   *
+   * Gets the name a download is stored under, the requested file name with the extension of the image type
+   * detected from the contents of the file. The requested extension is kept if it stands for that image type.
+   * The Content-Type is not used as it is not trusted @see {_validateDownload}.
+   *
+   * e.g. the requested file name of 'https://cdn/img/123?w=200' ends in '.bin', a png download is stored as '.png'.
+   *
+   * @param fileName {String} - the requested file name @see {getFileNameFromUrl}.
+   * @param imageType {ImageType} - the type of the downloaded image.
+   * @returns {String} - the stored file name.
+   * @private
+   */
+  _getStoredFileName(fileName: string, imageType: ImageType) {
+    const extension = pathLib.extname(fileName)
+
+    if (getImageTypeFromExtension(extension) === imageType) {
+      return fileName
+    }
+
+    return pathLib.basename(fileName, extension) + '.' + imageTypeExtensions[imageType]
+  }
+
+  /**
+   *
+   * Queues a download, failed attempts are queued again after a backoff according to the retry policy.
+   *
+   * @param url {String} - url of file to download.
+   * @param fileName {String} - the cache file name.
+   * @param path {String} - local path to write the file to.
+   * @param headers {Object} - request headers.
+   * @param begin {Function} - called with the response headers once the download begins.
+   * @param priority {Number} - priority of the download in the download queue.
+   * @param attempt {Number} - the attempt number, starting at 1.
+   * @returns {Observable<DownloadResult>}
+   * @private
+   */
+  _queueDownload(
+    url: string,
+    fileName: string,
+    path: string,
+    headers: { [name: string]: string },
+    begin: RNFS.DownloadFileOptions['begin'],
+    priority: number,
+    attempt = 1,
+  ): Observable<RNFS.DownloadResult> {
+    const { maxAttempts, retryableStatusCodes, retryNetworkErrors } = this.retryPolicy
+    const canRetry = attempt < maxAttempts
+
+    return FileSystem.downloadQueue
+      .enqueue(fileName, () => this._download(url, fileName, path, headers, begin), priority)
+      .pipe(
+        // A retryable error is emitted as null so that errors of later attempts are not caught again.
+        catchError((error) => (canRetry && retryNetworkErrors ? of(null) : throwError(error))),
+        mergeMap((downloadResult) =>
+          downloadResult === null ||
+          (canRetry && retryableStatusCodes.includes(downloadResult.statusCode))
+            ? timer(getRetryDelay(this.retryPolicy, attempt)).pipe(
+                mergeMap(() =>
+                  this._queueDownload(url, fileName, path, headers, begin, priority, attempt + 1),
+                ),
+              )
+            : of(downloadResult),
+        ),
+      )
+  }
+
+  /**
+   *
+   * Downloads a file, passing the request headers through the onBeforeRequest hook and publishing its progress.
+   * If the server responds with 401 or 403 and the onAuthFailure hook refreshes the credentials the download is retried once,
+   * if the hook rejects the response is returned unchanged.
+   *
+   * @param url {String} - url of file to download.
+   * @param fileName {String} - the cache file name.
+   * @param path {String} - local path to write the file to.
+   * @param headers {Object} - request headers.
+   * @param begin {Function} - called with the response headers once the download begins.
+   * @param retried {Boolean} - whether the download has already been retried.
+   * @returns {Promise<DownloadResult>}
+   * @private
+   */
+  async _download(
+    url: string,
+    fileName: string,
+    path: string,
+    headers: { [name: string]: string },
+    begin: RNFS.DownloadFileOptions['begin'],
+    retried = false,
+  ): Promise<RNFS.DownloadResult> {
+    // Track the job so that it can be cancelled once no component is waiting for the file.
+    const job: { jobId: number | null; path: string } = { jobId: null, path }
+    FileSystem.downloadJobs[fileName] = job
+
+    // The request is never sent if the hook fails, which is reported like a failed request.
+    const requestHeaders = this.onBeforeRequest
+      ? await this.onBeforeRequest(url, { ...headers }).catch((error) => {
+          if (FileSystem.downloadJobs[fileName] === job) {
+            delete FileSystem.downloadJobs[fileName]
+          }
+          throw toCacheError(error, 'network')
+        })
+      : headers
+
+    if (FileSystem.downloadJobs[fileName] !== job) {
+      throw new CacheError('network', 'Download has been cancelled')
+    }
+
+    const { jobId, promise } = RNFS.downloadFile({
+      fromUrl: url,
+      toFile: path,
+      headers: requestHeaders,
+      progressInterval,
+      begin: (res) => {
+        // Only the body of a successful response is cached.
+        if (res.statusCode === 200) {
+          FileSystem.progress$.next({ fileName, bytesWritten: 0, contentLength: res.contentLength })
+        }
+        begin?.(res)
+      },
+      progress: ({ bytesWritten, contentLength }) => {
+        FileSystem.progress$.next({ fileName, bytesWritten, contentLength })
+      },
+    })
+
+    job.jobId = jobId
+
+    let downloadResult: RNFS.DownloadResult
+    try {
+      downloadResult = await promise
+    } catch (error) {
+      throw toCacheError(error, 'network')
+    } finally {
+      if (FileSystem.downloadJobs[fileName] === job) {
+        delete FileSystem.downloadJobs[fileName]
+      }
+    }
+
+    if (
+      !retried &&
+      this.onAuthFailure &&
+      (downloadResult.statusCode === 401 || downloadResult.statusCode === 403) &&
+      // Credentials that could not be refreshed are reported with the unauthorized response.
+      (await this.onAuthFailure(url, downloadResult.statusCode).catch(() => false))
+    ) {
+      return this._download(url, fileName, path, headers, begin, true)
+    }
+
+    return downloadResult
+  }
+
   /**
    * Used to remove files from cache directory if the cache grows too large.
    * This function will delete files from the cache until the total cache size
    * is less than FileSystem.cachePruneTriggerLimit setting.
+   * Files older than their time-to-live are deleted first, followed by files in the order of the eviction policy.
+   * Files in the permanent tier are never deleted and do not count towards the cache size.
    *
    * @returns {Promise}
    */
@@ -348,63 +1639,173 @@ export class FileSystem {
       return
     }
 
-    // Get directory contents
-    const dirContents = await RNFS.readDir(this.baseFilePath)
+    const startedAt = Date.now()
 
-    // Sort dirContents in order of oldest to newest file.
-    dirContents.sort((a, b) => {
-      return (a.mtime?.getTime() ?? 0) - (b.mtime?.getTime() ?? 0)
-    })
+    // Get cache contents from the manifest, permanent files are skipped.
+    const manifest = await this.manifest()
+    const entries = manifest.values().filter((entry) => !entry.permanent)
 
-    const currentCacheSize = dirContents.reduce((cacheSize, blobStatObject) => {
-      return cacheSize + parseInt(blobStatObject.size)
-    }, 0)
+    // Sort entries in order of expired files then the order of the eviction policy.
+    const now = Date.now()
+    const comparator =
+      typeof this.evictionPolicy === 'function'
+        ? this.evictionPolicy
+        : evictionComparators[this.evictionPolicy]
+    entries.sort(
+      (a, b) => Number(isExpired(b, now)) - Number(isExpired(a, now)) || comparator(a, b),
+    )
+
+    const currentCacheSize = entries.reduce((cacheSize, entry) => cacheSize + entry.size, 0)
 
     // Prune cache if current cache size is too big.
     if (currentCacheSize > this.cachePruneTriggerLimit) {
       let overflowSize = currentCacheSize - this.cachePruneTriggerLimit
 
       const unlinkPromises = []
+      const pruned: CacheEntry[] = []
 
       // Keep deleting cached files so long as the current cache size is larger than the size required to trigger cache pruning, or until
       // all cache files have been evaluated.
-      while (overflowSize > 0 && dirContents.length) {
-        const contentFile = dirContents.shift()
+      while (overflowSize > 0 && entries.length) {
+        const entry = entries.shift()
 
-        // Only prune unlocked files from cache
+        // Only prune unlocked files from cache.
         if (
-          contentFile &&
-          !FileSystem.cacheLock[contentFile.name] &&
-          this._validatePath(contentFile.name)
+          entry &&
+          !this._isLocked(manifest, entry.fileName) &&
+          this._validatePath(entry.fileName)
         ) {
-          overflowSize -= parseInt(contentFile.size)
-          unlinkPromises.push(RNFSUnlinkIfExists(this.baseFilePath + contentFile.name))
+          overflowSize -= entry.size
+          unlinkPromises.push(RNFSUnlinkIfExists(this.baseFilePath + entry.fileName))
+          manifest.delete(entry.fileName)
+          pruned.push(entry)
         }
       }
 
       await Promise.all(unlinkPromises)
+      await manifest.save()
+
+      if (pruned.length) {
+        FileSystem.events$.next({
+          type: 'prune',
+          entries: pruned.map(({ url, fileName, size }) => ({ url, fileName, size })),
+          size: pruned.reduce((size, entry) => size + entry.size, 0),
+          duration: Date.now() - startedAt,
+          timestamp: Date.now(),
+        })
+      }
+    }
+  }
+
+  /**
+   *
+   * Checks whether a cached file is locked, files are locked by the name they were requested with.
+   *
+   * @param manifest {CacheManifest} - the manifest of the cache directory.
+   * @param storedFileName {String} - the name the file is stored under.
+   * @returns {Boolean}
+   */
+  _isLocked(manifest: CacheManifest, storedFileName: string) {
+    return [storedFileName, ...manifest.aliasesOf(storedFileName)].some(
+      (fileName) => FileSystem.cacheLock[fileName],
+    )
+  }
+
+  /**
+   *
+   * Lists the files stored in the cache directory, e.g. to show what is cached in a storage screen.
+   *
+   * @returns {Promise<Array<CacheEntryInfo>>}
+   */
+  async listEntries(): Promise<CacheEntryInfo[]> {
+    const manifest = await this.manifest()
+
+    return manifest.values().map((entry) => ({
+      url: entry.url,
+      fileName: entry.fileName,
+      size: entry.size,
+      mtime: entry.createdAt,
+      lastAccess: entry.lastAccess,
+      locked: this._isLocked(manifest, entry.fileName),
+      permanent: entry.permanent,
+    }))
+  }
+
+  /**
+   *
+   * Gets the size of the cache directory, e.g. to show how much storage the cache uses.
+   *
+   * @returns {Promise<CacheStats>}
+   */
+  async getStats(): Promise<CacheStats> {
+    const entries = await this.listEntries()
+
+    return {
+      totalBytes: entries.reduce((size, entry) => size + entry.size, 0),
+      permanentBytes: entries
+        .filter((entry) => entry.permanent)
+        .reduce((size, entry) => size + entry.size, 0),
+      entryCount: entries.length,
+      lockedCount: entries.filter((entry) => entry.locked).length,
+      pruneLimit: this.cachePruneTriggerLimit,
     }
   }
 
   /**
    * Used to delete local files and directories
+   * Observables of the removed files emit the unlinked status.
    *
    * @param path - local relative file path.
    * @returns {Promise} - boolean promise for if deletion was successful.
    */
   async unlink(path: string) {
     this._validatePath(path)
+    const requestedPath = path
+    const startedAt = Date.now()
 
     try {
+      // A file can be unlinked by the name it was requested with or the name it is stored under.
+      const manifest = await this.manifest()
+      path = manifest.resolve(path)
+
       await RNFSUnlinkIfExists(pathLib.resolve(this.baseFilePath + path))
 
-      const obs$ = FileSystem.cacheObservables[path]
-      if (obs$) {
-        obs$.next({
-          path: null,
-          fileName: path,
-        })
-      }
+      // Keep the manifest in sync, an empty path removes the whole cache directory.
+      const relativePath = pathLib.relative(this.baseFilePath, this.baseFilePath + path)
+      const removed = manifest
+        .values()
+        .filter(
+          (entry) =>
+            !relativePath ||
+            relativePath === this._getRelativePath(entry.fileName, entry.permanent) ||
+            (relativePath === permanentDirName && entry.permanent),
+        )
+      const fileNames = new Set([
+        requestedPath,
+        ...removed.flatMap((entry) => [entry.fileName, ...manifest.aliasesOf(entry.fileName)]),
+      ])
+      removed.forEach((entry) => manifest.delete(entry.fileName))
+      await manifest.save()
+
+      FileSystem.events$.next({
+        type: relativePath ? 'unlink' : 'flush',
+        path: requestedPath,
+        count: removed.length,
+        size: removed.reduce((size, entry) => size + entry.size, 0),
+        duration: Date.now() - startedAt,
+        timestamp: Date.now(),
+      })
+
+      // Components of the removed files are notified, the next request for a file downloads it again.
+      fileNames.forEach((fileName) => {
+        const obs$ = FileSystem.cacheObservables[fileName]
+        if (obs$) {
+          FileSystem.cacheFailures[fileName] = true
+          obs$.next(
+            createCacheFileInfo({ path: null, fileName, status: 'unlinked', origin: 'disk' }),
+          )
+        }
+      })
 
       return true
     } catch (error) {
@@ -412,6 +1813,27 @@ export class FileSystem {
     }
   }
 
+  /**
+   *
+   * Gets a observable which emits the progress of downloads of a file.
+   *
+   * @param fileName {String} - the cache file name @see {getFileNameFromUrl}.
+   * @returns {Observable<DownloadProgress>}
+   */
+  progressObservable(fileName: string): Observable<DownloadProgress> {
+    return FileSystem.progress$.pipe(filter((progress) => progress.fileName === fileName))
+  }
+
+  /**
+   *
+   * Gets a observable which emits the events of the cache, e.g. to send cache hits and misses to analytics.
+   *
+   * @returns {Observable<CacheEvent>}
+   */
+  eventObservable(): Observable<CacheEvent> {
+    return FileSystem.events$.asObservable()
+  }
+
   /**
    * Gets a observable which emits when a url is resolved to a local file path
    * A cache lock is required @see {lockCacheFile}
@@ -420,6 +1842,7 @@ export class FileSystem {
    * @param componentId {String} - Unique id of the requestor.
    * @param cacheStrategy {CacheStrategy} - The cache strategy to use, defaults to 'immutable'.
    * @param fileName {String} - defaults to a sha1 hash of the url param with extension of same filetype.
+   * @param options {CacheRequestOptions} - additional options for the request.
    * @returns {Observable<CacheFileInfo>} observable that resolves to an object that contains the local path of the downloaded file and the filename.
    */
   observable(
@@ -427,70 +1850,206 @@ export class FileSystem {
     componentId: string,
     cacheStrategy: CacheStrategy = 'immutable',
     fileName: string | null = null,
+    {
+      permanent = false,
+      maxAge = null,
+      staleWhileRevalidate = true,
+      headers = {},
+      cacheKey,
+      priority = 0,
+      integrity = null,
+    }: CacheRequestOptions = {},
   ): Observable<CacheFileInfo> {
     if (!url) {
-      return of({
-        path: null,
-        fileName: '',
-      })
+      return of(createCacheFileInfo({ path: null, fileName: '', status: 'error' }))
     }
 
     // Check for invalid cache strategies
-    if (cacheStrategy !== 'immutable' && cacheStrategy !== 'mutable') {
+    if (cacheStrategy !== 'immutable' && cacheStrategy !== 'mutable' && cacheStrategy !== 'http') {
       throw new Error(`Invalid CacheStrategy ${cacheStrategy} is unhandled`)
     }
 
-    fileName = fileName || this.getFileNameFromUrl(url)
+    fileName = fileName || this.getFileNameFromUrl(url, cacheKey)
 
     if (!FileSystem.cacheLock[fileName] || !FileSystem.cacheLock[fileName][componentId]) {
       throw new Error('A lock must be aquired before requesting an observable')
     }
 
-    if (!FileSystem.cacheObservables[fileName]) {
+    if (!FileSystem.cacheObservables[fileName] || FileSystem.cacheFailures[fileName]) {
       this._validatePath(fileName)
 
-      const subject$ = new ReplaySubject<CacheFileInfo>()
+      const subject$ = new ReplaySubject<CacheFileInfo>(1)
 
-      const obs$ = from(RNFS.stat(this.baseFilePath + fileName)).pipe(
+      // A failed request is attempted again, the subscribers of the failed request also receive the new result.
+      if (FileSystem.cacheObservables[fileName]) {
+        subject$.subscribe(FileSystem.cacheObservables[fileName])
+        FileSystem.cacheSubscriptions[fileName]?.unsubscribe()
+        delete FileSystem.cacheFailures[fileName]
+      }
+
+      const name = fileName
+      const requestedAt = Date.now()
+      const obs$ = from(this._resolveFile(fileName, permanent)).pipe(
         catchError(() => of(null)),
-        switchMap((stat) => {
-          if (stat !== null) {
-            switch (cacheStrategy) {
-              case 'immutable': {
-                return of({
-                  path: 'file://' + this.baseFilePath + fileName,
+        switchMap((file) => {
+          if (file === null) {
+            FileSystem.events$.next({
+              type: 'miss',
+              url,
+              fileName: name,
+              duration: Date.now() - requestedAt,
+              timestamp: Date.now(),
+            })
+
+            // Download
+            return from([
+              of(
+                createCacheFileInfo({ path: null, fileName: name, status: 'loading', requestedAt }),
+              ),
+              this.fetchFile(url, fileName, headers, {
+                permanent,
+                maxAge,
+                priority,
+                integrity,
+              }),
+            ]).pipe(concatAll())
+          }
+
+          return from(this.manifest()).pipe(
+            switchMap((manifest) => {
+              const entry = manifest.get(pathLib.basename(file.path))
+              const cachedInfo = (status: 'cached' | 'revalidating') =>
+                createCacheFileInfo({
+                  path: 'file://' + file.path,
+                  fileName: name,
+                  status,
+                  origin: 'disk',
+                  requestedAt,
+                })
+              const fetchOptions = { permanent: file.permanent, maxAge, priority, integrity }
+
+              this._recordCacheHit(url, file, maxAge)
+              FileSystem.events$.next({
+                type: 'hit',
+                url,
+                fileName: name,
+                size: parseInt(file.stat.size) || 0,
+                duration: Date.now() - requestedAt,
+                timestamp: Date.now(),
+              })
+
+              // Files older than their time-to-live are downloaded again regardless of cache strategy
+              if (
+                maxAge !== null &&
+                isExpired(
+                  {
+                    maxAge,
+                    validatedAt: entry?.validatedAt ?? new Date(file.stat.mtime).getTime(),
+                  },
+                  Date.now(),
+                )
+              ) {
+                const fetch$ = this.fetchFile(
+                  url,
                   fileName,
-                } as CacheFileInfo)
-              }
-              case 'mutable': {
-                return from([
-                  of({
-                    path: 'file://' + this.baseFilePath + fileName,
-                    fileName,
-                  } as CacheFileInfo),
-                  this.fetchFile(url, fileName, {
-                    'if-modified-since': new Date(stat.mtime).toUTCString(),
-                  }),
-                ]).pipe(concatAll())
+                  { ...headers, ...getValidators(entry) },
+                  fetchOptions,
+                )
+
+                // A file that fails to revalidate is emitted with the error, so it is still served.
+                return staleWhileRevalidate
+                  ? from([of(cachedInfo('revalidating')), fetch$]).pipe(concatAll())
+                  : fetch$
               }
-            }
-          }
 
-          // Download
-          return this.fetchFile(url, fileName)
+              switch (cacheStrategy) {
+                case 'mutable': {
+                  return from([
+                    of(cachedInfo('revalidating')),
+                    this.fetchFile(
+                      url,
+                      fileName,
+                      {
+                        ...headers,
+                        'if-modified-since': new Date(file.stat.mtime).toUTCString(),
+                      },
+                      fetchOptions,
+                    ),
+                  ]).pipe(concatAll())
+                }
+                case 'http': {
+                  // Serve from disk, revalidating with the server only if the response is no longer fresh.
+                  if (entry && entry.expiresAt !== null && entry.expiresAt > Date.now()) {
+                    return of(cachedInfo('cached'))
+                  }
+
+                  return from([
+                    of(cachedInfo('revalidating')),
+                    this.fetchFile(
+                      url,
+                      fileName,
+                      { ...headers, ...getValidators(entry) },
+                      fetchOptions,
+                    ),
+                  ]).pipe(concatAll())
+                }
+                case 'immutable': {
+                  return of(cachedInfo('cached'))
+                }
+              }
+            }),
+          )
         }),
         publishReplay(1),
         refCount(),
       )
 
-      // Subscribe
-      obs$.subscribe((v) => subject$.next(v))
+      // Subscribe, the subscription is released with the last lock on the file.
+      FileSystem.cacheSubscriptions[fileName] = obs$.subscribe((v) => {
+        if (v.status === 'error' && v.path === null) {
+          FileSystem.cacheFailures[v.fileName] = true
+        }
+        subject$.next(v)
+      })
 
       return (FileSystem.cacheObservables[fileName] = subject$)
     }
 
+    // The file is already being served to another component
+    this._recordAccess(fileName)
+    FileSystem.downloadQueue.prioritize(fileName, priority)
+
+    if (permanent) {
+      // The file may have been requested for the evictable tier, it is moved once that request has settled.
+      // A request that is already settled runs this immediately.
+      const name = fileName
+      FileSystem.cacheSubscriptions[name]?.add(() => {
+        this._promote(name).catch(() => undefined)
+      })
+
+      // Only the path of the permanent tier is emitted, along with the statuses that have no path.
+      const permanentPath = 'file://' + this.baseFilePath + this._getRelativePath('', true)
+      return FileSystem.cacheObservables[fileName].pipe(
+        filter((info) => info.path === null || info.path.startsWith(permanentPath)),
+      )
+    }
+
     return FileSystem.cacheObservables[fileName]
   }
+
+  /**
+   *
+   * Moves a cache file that was requested as permanent to the permanent tier, unless it is already stored there.
+   *
+   * @param fileName {String} - the cache file name.
+   * @returns {Promise}
+   * @private
+   */
+  async _promote(fileName: string) {
+    if (!(await this.manifest()).get(fileName)?.permanent) {
+      await this._setTier(fileName, true)
+    }
+  }
 }
 
 /**
@@ -501,6 +2060,7 @@ export class FileSystem {
 export default function FileSystemFactory(
   cachePruneTriggerLimit?: number | null,
   fileDirName?: string | null,
+  options?: FileSystemOptions,
 ): FileSystem {
-  return new FileSystem(cachePruneTriggerLimit || null, fileDirName || null)
+  return new FileSystem(cachePruneTriggerLimit || null, fileDirName || null, options)
 }
@@ -0,0 +1,99 @@
+/**
+ *
+ * Context that configures every HOC wrapped component and useCachedImage hook rendered inside it, so that options such
+ * as fileDirName are set once for the app and the components share a single FileSystem.
+ *
+ * Options of a HOC or hook take precedence over the config, a HOC or hook with options that configure the FileSystem
+ * creates its own FileSystem from the merged options @see {configuresFileSystem}.
+ *
+ * The static methods of HOC classes are called outside of the component tree, they use the most recently mounted provider.
+ *
+ */
+
+import React, { ReactNode, useContext, useEffect, useMemo } from 'react'
+import { FileSystem } from './FileSystem'
+import { configuresFileSystem, createFileSystem, mergeOptions, validateOptions } from './Options'
+import { ReactNativeImageCacheHocOptions } from '.'
+
+export interface ImageCacheContextValue {
+  config: ReactNativeImageCacheHocOptions
+  fileSystem: FileSystem
+}
+
+export const ImageCacheContext = React.createContext<ImageCacheContextValue | null>(null)
+
+// Contexts of the mounted providers, in the order they were mounted.
+const mountedContexts: ImageCacheContextValue[] = []
+
+/**
+ *
+ * Gets the context of the most recently mounted provider.
+ *
+ * @returns {ImageCacheContextValue|null} the context, or null if no provider is mounted.
+ */
+export const getMountedContext = () => mountedContexts[mountedContexts.length - 1] ?? null
+
+/**
+ *
+ * Gets the FileSystem of options, the FileSystem of the provider is shared unless the options configure their own.
+ *
+ * @param context {ImageCacheContextValue|null} - the context of the provider.
+ * @param options {ReactNativeImageCacheHocOptions} - the options that take precedence over the config of the provider.
+ * @returns {FileSystem}
+ */
+export const resolveFileSystem = (
+  context: ImageCacheContextValue | null | undefined,
+  options: ReactNativeImageCacheHocOptions,
+) =>
+  context?.fileSystem && !configuresFileSystem(options)
+    ? context.fileSystem
+    : createFileSystem(mergeOptions(context?.config ?? {}, options))
+
+export interface ImageCacheProviderProps {
+  config?: ReactNativeImageCacheHocOptions
+  fileSystem?: FileSystem // Used instead of the FileSystem configured by config, e.g. to swap in a mock in tests.
+  children?: ReactNode
+}
+
+/**
+ *
+ * Provides the config and FileSystem to the components rendered inside it.
+ * The config should not be recreated on every render, e.g. define it outside of the component, as a change creates a new FileSystem.
+ *
+ * @param props {ImageCacheProviderProps}
+ * @returns {ReactNode}
+ */
+export const ImageCacheProvider = ({ config, fileSystem, children }: ImageCacheProviderProps) => {
+  const value = useMemo(() => {
+    const providedConfig = config || {}
+    validateOptions(providedConfig)
+
+    return {
+      config: providedConfig,
+      fileSystem: fileSystem || createFileSystem(providedConfig),
+    }
+  }, [config, fileSystem])
+
+  useEffect(() => {
+    mountedContexts.push(value)
+
+    return () => {
+      mountedContexts.splice(mountedContexts.indexOf(value), 1)
+    }
+  }, [value])
+
+  return <ImageCacheContext.Provider value={value}>{children}</ImageCacheContext.Provider>
+}
+
+/**
+ *
+ * Gets the FileSystem shared by the components rendered inside the provider, e.g. to prefetch or flush files.
+ * Without a provider the FileSystem is created with the default options.
+ *
+ * @returns {FileSystem}
+ */
+export const useImageCache = () => {
+  const context = useContext(ImageCacheContext)
+
+  return useMemo(() => resolveFileSystem(context, {}), [context])
+}
@@ -0,0 +1,119 @@
+/**
+ *
+ * Detects the type of an image from the signature in its leading bytes, regardless of its file extension or Content-Type.
+ * Used to discard downloads that are not images, e.g. the HTML page of a captive portal served with a 200 status.
+ *
+ */
+
+import Base64 from 'crypto-js/enc-base64'
+
+export type ImageType = 'jpeg' | 'png' | 'gif' | 'webp' | 'bmp' | 'heic' | 'avif'
+
+export const imageTypes: ImageType[] = ['jpeg', 'png', 'gif', 'webp', 'bmp', 'heic', 'avif']
+
+/**
+ * Extension that files of each image type are stored with.
+ */
+export const imageTypeExtensions: { [type in ImageType]: string } = {
+  jpeg: 'jpg',
+  png: 'png',
+  gif: 'gif',
+  webp: 'webp',
+  bmp: 'bmp',
+  heic: 'heic',
+  avif: 'avif',
+}
+
+/**
+ * Image types of the extensions that are in common use, including those that are not used to store files.
+ */
+const extensionImageTypes: { [extension: string]: ImageType } = {
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  jpe: 'jpeg',
+  png: 'png',
+  gif: 'gif',
+  webp: 'webp',
+  bmp: 'bmp',
+  heic: 'heic',
+  heif: 'heic',
+  avif: 'avif',
+}
+
+/**
+ * Number of leading bytes needed to detect every image type.
+ */
+export const signatureLength = 12
+
+/**
+ * Brands of the ISO base media file format ftyp box, see ISO/IEC 23008-12 and the AV1 image file format.
+ */
+const heicBrands = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']
+const avifBrands = ['avif', 'avis']
+
+/**
+ *
+ * Decodes base64, e.g. the result of RNFS.read, to bytes.
+ *
+ * @param base64 {String} - base64 encoded data.
+ * @returns {Array<Number>} the decoded bytes.
+ */
+export const decodeBase64 = (base64: string) => {
+  const { words, sigBytes } = Base64.parse(base64)
+
+  return Array.from({ length: sigBytes }, (_, i) => (words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff)
+}
+
+/**
+ *
+ * Detects the type of an image from its leading bytes.
+ *
+ * @param bytes {Array<Number>} - at least the first signatureLength bytes of the file.
+ * @returns {ImageType|null} the image type, null if the bytes do not start with a known image signature.
+ */
+export const detectImageType = (bytes: number[]): ImageType | null => {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end))
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg'
+  }
+  if ([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => bytes[i] === byte)) {
+    return 'png'
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'gif'
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'webp'
+  }
+  if (ascii(0, 2) === 'BM') {
+    return 'bmp'
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12)
+
+    if (avifBrands.includes(brand)) {
+      return 'avif'
+    }
+    if (heicBrands.includes(brand)) {
+      return 'heic'
+    }
+  }
+
+  return null
+}
+
+/**
+ *
+ * Gets the image type that a file extension stands for.
+ *
+ * @param extension {String} - the extension, with or without the leading dot.
+ * @returns {ImageType|null} the image type, null if the extension is not an image extension, e.g. 'bin'.
+ */
+export const getImageTypeFromExtension = (extension: string): ImageType | null => {
+  const key = extension.replace(/^\./, '').toLowerCase()
+
+  return Object.prototype.hasOwnProperty.call(extensionImageTypes, key)
+    ? extensionImageTypes[key]
+    : null
+}
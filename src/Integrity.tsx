@@ -0,0 +1,41 @@
+/**
+ *
+ * Integrity values describe the expected hash of a file, using the subresource integrity format of browsers,
+ * e.g. 'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU='.
+ *
+ */
+
+import sha256 from 'crypto-js/sha256'
+import sha384 from 'crypto-js/sha384'
+import sha512 from 'crypto-js/sha512'
+import Base64 from 'crypto-js/enc-base64'
+
+const hashFunctions: { [algorithm: string]: typeof sha256 } = { sha256, sha384, sha512 }
+
+/**
+ *
+ * Checks file contents against an integrity value.
+ * The value may list several space separated hashes, the contents match if any of them matches.
+ *
+ * @param base64Contents {String} - the file contents encoded as base64.
+ * @param integrity {String} - the expected hashes, e.g. 'sha256-...'.
+ * @returns {Boolean} whether the contents match.
+ * @throws error if a hash uses an algorithm other than sha256, sha384 or sha512.
+ */
+export const matchesIntegrity = (base64Contents: string, integrity: string) => {
+  const contents = Base64.parse(base64Contents)
+
+  return integrity
+    .trim()
+    .split(/\s+/)
+    .some((value) => {
+      const separator = value.indexOf('-')
+      const hash = hashFunctions[value.slice(0, separator)]
+
+      if (separator === -1 || !hash) {
+        throw new Error(`Unsupported integrity ${value}, expected a sha256, sha384 or sha512 hash.`)
+      }
+
+      return Base64.stringify(hash(contents)) === value.slice(separator + 1)
+    })
+}
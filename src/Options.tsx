@@ -0,0 +1,166 @@
+/**
+ *
+ * Options shared by the HOC, the useCachedImage hook and the ImageCacheProvider.
+ *
+ */
+
+import FileSystemFactory, { evictionComparators } from './FileSystem'
+import { imageTypes } from './ImageType'
+import { ReactNativeImageCacheHocOptions } from '.'
+
+/**
+ * Options that configure the FileSystem rather than how sources are rendered.
+ */
+const fileSystemOptionNames: (keyof ReactNativeImageCacheHocOptions)[] = [
+  'cachePruneTriggerLimit',
+  'fileDirName',
+  'evictionPolicy',
+  'onBeforeRequest',
+  'onAuthFailure',
+  'cacheKey',
+  'maxConcurrentDownloads',
+  'retryPolicy',
+  'allowedImageTypes',
+  'accept',
+]
+
+/**
+ *
+ * Validates options.
+ *
+ * @param options {ReactNativeImageCacheHocOptions} - the options to validate.
+ * @throws error on an invalid option.
+ */
+export const validateOptions = (options: ReactNativeImageCacheHocOptions) => {
+  if (options.validProtocols && !Array.isArray(options.validProtocols)) {
+    throw new Error('validProtocols option must be an array of protocol strings.')
+  }
+  if (options.fileHostWhitelist && !Array.isArray(options.fileHostWhitelist)) {
+    throw new Error('fileHostWhitelist option must be an array of host strings.')
+  }
+  if (options.cachePruneTriggerLimit && !Number.isInteger(options.cachePruneTriggerLimit)) {
+    throw new Error('cachePruneTriggerLimit option must be an integer.')
+  }
+  if (options.fileDirName && typeof options.fileDirName !== 'string') {
+    throw new Error('fileDirName option must be string')
+  }
+  if (
+    options.defaultPlaceholder &&
+    typeof options.defaultPlaceholder !== 'object' &&
+    typeof options.defaultPlaceholder !== 'function'
+  ) {
+    throw new Error('defaultPlaceholder option must be a ReactNode or a render function.')
+  }
+  if (
+    options.defaultErrorPlaceholder &&
+    typeof options.defaultErrorPlaceholder !== 'object' &&
+    typeof options.defaultErrorPlaceholder !== 'function'
+  ) {
+    throw new Error('defaultErrorPlaceholder option must be a ReactNode or a render function.')
+  }
+  if (
+    options.maxAge !== undefined &&
+    options.maxAge !== null &&
+    (typeof options.maxAge !== 'number' || options.maxAge < 0)
+  ) {
+    throw new Error('maxAge option must be a positive number.')
+  }
+  if (
+    options.evictionPolicy &&
+    typeof options.evictionPolicy !== 'function' &&
+    !evictionComparators[options.evictionPolicy]
+  ) {
+    throw new Error(
+      'evictionPolicy option must be one of fifo, lru, lfu, size or a comparator function.',
+    )
+  }
+  if (options.onBeforeRequest && typeof options.onBeforeRequest !== 'function') {
+    throw new Error('onBeforeRequest option must be a function.')
+  }
+  if (options.onAuthFailure && typeof options.onAuthFailure !== 'function') {
+    throw new Error('onAuthFailure option must be a function.')
+  }
+  if (options.cacheKey && typeof options.cacheKey !== 'function') {
+    throw new Error('cacheKey option must be a function.')
+  }
+  if (
+    options.maxConcurrentDownloads !== undefined &&
+    (!Number.isInteger(options.maxConcurrentDownloads) || options.maxConcurrentDownloads < 1)
+  ) {
+    throw new Error('maxConcurrentDownloads option must be a positive integer.')
+  }
+  if (
+    options.retryPolicy &&
+    (typeof options.retryPolicy !== 'object' ||
+      (options.retryPolicy.maxAttempts !== undefined &&
+        (!Number.isInteger(options.retryPolicy.maxAttempts) ||
+          options.retryPolicy.maxAttempts < 1)))
+  ) {
+    throw new Error('retryPolicy option must be an object with a positive integer maxAttempts.')
+  }
+  if (
+    options.allowedImageTypes &&
+    (!Array.isArray(options.allowedImageTypes) ||
+      !options.allowedImageTypes.length ||
+      options.allowedImageTypes.some((type) => !imageTypes.includes(type)))
+  ) {
+    throw new Error(
+      'allowedImageTypes option must be a non-empty array of jpeg, png, gif, webp, bmp, heic or avif.',
+    )
+  }
+  if (options.accept && typeof options.accept !== 'string') {
+    throw new Error('accept option must be a string.')
+  }
+}
+
+/**
+ *
+ * Merges options, options that are undefined do not override the defaults.
+ *
+ * @param defaults {ReactNativeImageCacheHocOptions} - e.g. the config of the ImageCacheProvider.
+ * @param options {ReactNativeImageCacheHocOptions} - the options that take precedence.
+ * @returns {ReactNativeImageCacheHocOptions}
+ */
+export const mergeOptions = (
+  defaults: ReactNativeImageCacheHocOptions,
+  options: ReactNativeImageCacheHocOptions,
+): ReactNativeImageCacheHocOptions => {
+  const merged: { [name: string]: unknown } = { ...defaults }
+
+  Object.entries(options).forEach(([name, value]) => {
+    if (value !== undefined) {
+      merged[name] = value
+    }
+  })
+
+  return merged
+}
+
+/**
+ *
+ * Whether options configure the FileSystem, in which case they can not share the FileSystem of the ImageCacheProvider.
+ *
+ * @param options {ReactNativeImageCacheHocOptions}
+ * @returns {Boolean}
+ */
+export const configuresFileSystem = (options: ReactNativeImageCacheHocOptions) =>
+  fileSystemOptionNames.some((name) => options[name] !== undefined)
+
+/**
+ *
+ * Creates the FileSystem configured by options.
+ *
+ * @param options {ReactNativeImageCacheHocOptions}
+ * @returns {FileSystem}
+ */
+export const createFileSystem = (options: ReactNativeImageCacheHocOptions) =>
+  FileSystemFactory(options.cachePruneTriggerLimit || null, options.fileDirName || null, {
+    evictionPolicy: options.evictionPolicy,
+    onBeforeRequest: options.onBeforeRequest,
+    onAuthFailure: options.onAuthFailure,
+    cacheKey: options.cacheKey,
+    maxConcurrentDownloads: options.maxConcurrentDownloads,
+    retryPolicy: options.retryPolicy,
+    allowedImageTypes: options.allowedImageTypes,
+    accept: options.accept,
+  })
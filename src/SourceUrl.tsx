@@ -0,0 +1,47 @@
+/**
+ *
+ * Validates source urls before they are requested from the cache.
+ *
+ */
+
+import validator from 'validator'
+import { CacheError } from './CacheError'
+
+/**
+ *
+ * Validates a source uri to be a web accessible url.
+ *
+ * @param uri {String} - the source uri.
+ * @param validProtocols {Array<String>} - protocols the url may use.
+ * @param fileHostWhitelist {Array<String>} - hosts the url may use, all hosts are allowed if empty.
+ * @returns {CacheError|null} the reason the source uri is invalid, null if it is valid.
+ */
+export const getSourceUrlError = (
+  uri: string | undefined,
+  validProtocols: string[],
+  fileHostWhitelist: string[],
+): CacheError | null => {
+  // Define validator options
+  const validatorUrlOptions: validator.IsURLOptions = {
+    protocols: validProtocols,
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    require_protocol: true,
+  }
+
+  if (!uri || !validator.isURL(uri, validatorUrlOptions)) {
+    return new CacheError('invalidUrl', `Invalid source uri ${uri}`)
+  }
+
+  if (
+    fileHostWhitelist.length &&
+    !validator.isURL(uri, {
+      ...validatorUrlOptions,
+      // eslint-disable-next-line @typescript-eslint/camelcase
+      host_whitelist: fileHostWhitelist,
+    })
+  ) {
+    return new CacheError('hostNotAllowed', `Source uri host is not allowed ${uri}`)
+  }
+
+  return null
+}
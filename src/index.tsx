@@ -3,8 +3,8 @@
  * This HOC adds the following functionality to react native <Image> components:
  *
  * - File caching. Images will be downloaded to a cache on the local file system.
- *   Cache is maintained until cache size meets a certain threshold at which point the oldest
- *   cached files are purged to make room for fresh files.
+ *   Cache is maintained until cache size meets a certain threshold at which point the least recently
+ *   used cached files are purged to make room for fresh files.
  *
  *  - File persistence. Images will be stored indefinitely on local file system.
  *    Required for images that are related to issues that have been downloaded for offline use.
@@ -15,22 +15,60 @@
 
 // Load dependencies.
 import React, { ReactNode } from 'react'
-import FileSystemFactory, { CacheFileInfo, FileSystem } from './FileSystem'
+import FileSystemFactory, {
+  AuthFailureHook,
+  BeforeRequestHook,
+  CacheFileInfo,
+  CacheRequestOptions,
+  createCacheFileInfo,
+  DownloadProgress,
+  EvictionPolicy,
+  FileSystem,
+  PrefetchOptions,
+  RetryPolicy,
+} from './FileSystem'
+import { CacheKeyFunction, stripAllQueryParams, stripQueryParams } from './CacheKey'
+import { CacheError } from './CacheError'
+import { ImageType, imageTypes } from './ImageType'
+import { getSourceUrlError } from './SourceUrl'
+import { mergeOptions, validateOptions } from './Options'
+import {
+  getMountedContext,
+  ImageCacheContext,
+  ImageCacheContextValue,
+  ImageCacheProvider,
+  resolveFileSystem,
+  useImageCache,
+} from './ImageCacheProvider'
+import { useCachedImage } from './useCachedImage'
 import traverse from 'traverse'
-import validator from 'validator'
 import uuid from 'react-native-uuid'
-import { Image, ImageStyle, Platform, StyleProp } from 'react-native'
+import { ImageStyle, Platform, StyleProp } from 'react-native'
 import { BehaviorSubject, Subscription } from 'rxjs'
 import { skip, takeUntil } from 'rxjs/operators'
 import URL from 'url-parse'
 
-export type CacheStrategy = 'immutable' | 'mutable'
+export type CacheStrategy = 'immutable' | 'mutable' | 'http'
 
 export type Source = {
   uri?: string
   cache?: CacheStrategy
+  maxAge?: number // Time-to-live of the cached file in seconds, overrides the maxAge option.
+  headers?: { [key: string]: string } // Request headers sent when downloading the file, e.g. Authorization.
+  cacheKey?: string // Key the cached file name is derived from, overrides the cacheKey option.
+  integrity?: string // Expected hash of the file, e.g. 'sha256-...', a download that does not match is not cached.
 }
 
+/**
+ * Renders a placeholder with the progress of the download, null until the download begins.
+ */
+export type PlaceholderRenderer = (progress: DownloadProgress | null) => ReactNode
+
+/**
+ * Renders a placeholder for a source that could not be loaded, call retry to request the source again.
+ */
+export type ErrorPlaceholderRenderer = (error: CacheError, retry: () => void) => ReactNode
+
 export interface OnLoadEvent {
   width: number
   height: number
@@ -39,15 +77,24 @@ export interface OnLoadEvent {
 export interface ReactNativeImageCacheHocProps {
   source?: Source
   onLoadFinished?(event: OnLoadEvent): void
+  onLoadStart?(): void // Called when loading a source begins.
+  onError?(error: CacheError): void // Called with the reason a source could not be loaded.
+  onLoadEnd?(): void // Called when loading a source succeeds or fails.
   style?: StyleProp<ImageStyle>
-  placeholder?: ReactNode
+  placeholder?: ReactNode | PlaceholderRenderer
+  errorPlaceholder?: ReactNode | ErrorPlaceholderRenderer // Rendered instead of the placeholder if the source could not be loaded.
+  onProgress?(progress: DownloadProgress): void
   fileHostWhitelist?: string[]
+  permanent?: boolean
+  priority?: number // Queued downloads with a higher priority are started first. Defaults to 0.
 }
 
 interface ReactNativeImageCacheHocState {
   source?: {
     uri?: string
   }
+  progress?: DownloadProgress
+  error?: CacheError
 }
 
 export interface ReactNativeImageCacheHocOptions {
@@ -55,7 +102,18 @@ export interface ReactNativeImageCacheHocOptions {
   fileHostWhitelist?: string[]
   cachePruneTriggerLimit?: number // Maximum size of image file cache in bytes before pruning occurs. Defaults to 15 MB.
   fileDirName?: string | null // Namespace local file writing to this directory. Defaults to 'react-native-image-cache-hoc'.
-  defaultPlaceholder?: ReactNode | null
+  defaultPlaceholder?: ReactNode | PlaceholderRenderer | null
+  defaultErrorPlaceholder?: ReactNode | ErrorPlaceholderRenderer | null
+  maxAge?: number | null // Default time-to-live of cached files in seconds, expired files are downloaded again. Defaults to no expiry.
+  staleWhileRevalidate?: boolean // Whether expired files are rendered while they are downloaded again. Defaults to true.
+  evictionPolicy?: EvictionPolicy // How files are chosen for deletion when the cache is pruned. Defaults to 'lru'.
+  onBeforeRequest?: BeforeRequestHook | null // Resolves to the request headers of each download, e.g. to add a fresh auth token.
+  onAuthFailure?: AuthFailureHook | null // Called when a download is rejected with 401 or 403, resolve true once credentials are refreshed to retry the download once.
+  cacheKey?: CacheKeyFunction | null // Maps a url to the key the cached file name is derived from. Defaults to the full url.
+  maxConcurrentDownloads?: number // Maximum number of downloads that run at the same time. Defaults to 6.
+  retryPolicy?: Partial<RetryPolicy> | null // How failed downloads are retried. Defaults to 3 attempts with exponential backoff.
+  allowedImageTypes?: ImageType[] // Image types that downloads are accepted as, other downloads are discarded. Defaults to all image types.
+  accept?: string | null // Accept header of downloads, e.g. 'image/avif,image/webp,image/*' to prefer modern formats. Defaults to none.
 }
 
 const imageCacheHoc = <P extends object>(
@@ -63,45 +121,43 @@ const imageCacheHoc = <P extends object>(
   options: ReactNativeImageCacheHocOptions = {},
 ) => {
   // Validate options
-  if (options.validProtocols && !Array.isArray(options.validProtocols)) {
-    throw new Error('validProtocols option must be an array of protocol strings.')
-  }
-  if (options.fileHostWhitelist && !Array.isArray(options.fileHostWhitelist)) {
-    throw new Error('fileHostWhitelist option must be an array of host strings.')
-  }
-  if (options.cachePruneTriggerLimit && !Number.isInteger(options.cachePruneTriggerLimit)) {
-    throw new Error('cachePruneTriggerLimit option must be an integer.')
-  }
-  if (options.fileDirName && typeof options.fileDirName !== 'string') {
-    throw new Error('fileDirName option must be string')
-  }
-  if (options.defaultPlaceholder && typeof options.defaultPlaceholder !== 'object') {
-    throw new Error('defaultPlaceholder option must be a ReactNode')
-  }
+  validateOptions(options)
 
   return class extends React.PureComponent<
     P & ReactNativeImageCacheHocProps,
     ReactNativeImageCacheHocState
   > {
+    static contextType = ImageCacheContext
+
     componentId: any
     unmounted$: BehaviorSubject<boolean>
     options: Required<ReactNativeImageCacheHocOptions>
     fileSystem: FileSystem
     subscription?: Subscription
     invalidUrl: boolean
+    urlError: CacheError | null = null
+    loadedPath: string | null = null
 
     /**
      *
      * Manually cache a file.
      * Can be used to pre-warm caches.
-     * If calling this method repeatedly to cache a long list of files,
-     * be sure to use a queue and limit concurrency so your app performance does not suffer.
+     * Downloads are queued with those of mounted components, use a lower priority so visible images are downloaded first.
      *
      * @param url {String} - url of file to download.
+     * @param permanent {Boolean} - whether the file should be stored permanently instead of in the prunable cache.
+     * @param options {Object} - request headers and download priority.
      * @returns {Promise} promise that resolves to an object that contains cached file info.
      */
-    static async cacheFile(url: string): Promise<any> {
-      const localFilePath = await this.fileSystem().getLocalFilePathFromUrl(url)
+    static async cacheFile(
+      url: string,
+      permanent = false,
+      { headers, priority }: Pick<CacheRequestOptions, 'headers' | 'priority'> = {},
+    ): Promise<any> {
+      const localFilePath = await this.fileSystem().getLocalFilePathFromUrl(url, permanent, {
+        headers,
+        priority,
+      })
 
       return {
         url: url,
@@ -109,6 +165,19 @@ const imageCacheHoc = <P extends object>(
       }
     }
 
+    /**
+     *
+     * Cache a list of urls, e.g. to pre-warm the cache after login.
+     * Downloads are queued with those of mounted components, use a lower priority so visible images are downloaded first.
+     *
+     * @param urls {Array<String>} - urls of the files to cache.
+     * @param options {PrefetchOptions} - concurrency, cache strategy, tier and download priority.
+     * @returns {PrefetchHandle} handle with the aggregate progress observable, a promise of the results per url and a cancel method.
+     */
+    static prefetch(urls: string[], prefetchOptions: PrefetchOptions = {}) {
+      return this.fileSystem().prefetch(urls, prefetchOptions)
+    }
+
     /**
      *
      * Manually move or copy a local file to the cache.
@@ -133,6 +202,18 @@ const imageCacheHoc = <P extends object>(
       return this.fileSystem().cacheLocalFile(local, url, move, mtime, ctime)
     }
 
+    /**
+     *
+     * Move a cached file between permanent storage and the prunable cache.
+     *
+     * @param url {String} - url of the cached file.
+     * @param permanent {Boolean} - whether the file should be stored permanently.
+     * @returns {Promise} promise that resolves to true if the file was moved, false if the url has not been cached.
+     */
+    static async setPermanent(url: string, permanent: boolean) {
+      return this.fileSystem().setPermanent(url, permanent)
+    }
+
     /**
      *
      * Delete all locally stored image files created by react-native-image-cache-hoc.
@@ -144,17 +225,38 @@ const imageCacheHoc = <P extends object>(
       return this.fileSystem().unlink('')
     }
 
+    /**
+     *
+     * Get the size of the cache, e.g. to show how much storage is used next to a button that calls flush().
+     *
+     * @returns {Promise<CacheStats>} promise that resolves to the total bytes, entry count, locked count and prune limit.
+     */
+    static async getStats() {
+      return this.fileSystem().getStats()
+    }
+
+    /**
+     *
+     * List the files stored in the cache.
+     *
+     * @returns {Promise<Array<CacheEntryInfo>>} promise that resolves to the url, file name, size, timestamps and state of each file.
+     */
+    static async listEntries() {
+      return this.fileSystem().listEntries()
+    }
+
     /**
      *  Export FileSystem for convenience.
+     *  The FileSystem of the most recently mounted ImageCacheProvider is shared unless this HOC configures its own.
      *
      * @returns {FileSystem}
      */
     static fileSystem() {
-      return FileSystemFactory(options.cachePruneTriggerLimit || null, options.fileDirName || null)
+      return resolveFileSystem(getMountedContext(), options)
     }
 
-    constructor(props: P) {
-      super(props)
+    constructor(props: P, context?: ImageCacheContextValue | null) {
+      super(props, context)
 
       // Set initial state
       this.state = {
@@ -167,42 +269,39 @@ const imageCacheHoc = <P extends object>(
       // Track component mount status to avoid calling setState() on unmounted component.
       this.unmounted$ = new BehaviorSubject<boolean>(true)
 
-      // Set default options
+      // Set default options, the options of this HOC take precedence over the config of an ImageCacheProvider.
+      const mergedOptions = mergeOptions(context?.config ?? {}, options)
       this.options = {
-        validProtocols: options.validProtocols || ['https'],
-        fileHostWhitelist: options.fileHostWhitelist || [],
-        cachePruneTriggerLimit: options.cachePruneTriggerLimit || 1024 * 1024 * 15, // Maximum size of image file cache in bytes before pruning occurs. Defaults to 15 MB.
-        fileDirName: options.fileDirName || null, // Namespace local file writing to this directory. Defaults to 'react-native-image-cache-hoc'.
-        defaultPlaceholder: options.defaultPlaceholder || null, // Default placeholder component to render while remote image file is downloading. Can be overridden with placeholder prop. Defaults to <Image> component with style prop passed through.
+        validProtocols: mergedOptions.validProtocols || ['https'],
+        fileHostWhitelist: mergedOptions.fileHostWhitelist || [],
+        cachePruneTriggerLimit: mergedOptions.cachePruneTriggerLimit || 1024 * 1024 * 15, // Maximum size of image file cache in bytes before pruning occurs. Defaults to 15 MB.
+        fileDirName: mergedOptions.fileDirName || null, // Namespace local file writing to this directory. Defaults to 'react-native-image-cache-hoc'.
+        defaultPlaceholder: mergedOptions.defaultPlaceholder || null, // Default placeholder component to render while remote image file is downloading. Can be overridden with placeholder prop. Defaults to <Image> component with style prop passed through.
+        defaultErrorPlaceholder: mergedOptions.defaultErrorPlaceholder || null, // Default placeholder component to render if the source could not be loaded. Can be overridden with errorPlaceholder prop. Defaults to the loading placeholder.
+        maxAge: mergedOptions.maxAge ?? null, // Default time-to-live of cached files in seconds. Can be overridden with the source maxAge prop. Defaults to no expiry.
+        staleWhileRevalidate: mergedOptions.staleWhileRevalidate ?? true, // Whether expired files are rendered while they are downloaded again. Defaults to true.
+        evictionPolicy: mergedOptions.evictionPolicy || 'lru', // How files are chosen for deletion when the cache is pruned. Defaults to 'lru'.
+        onBeforeRequest: mergedOptions.onBeforeRequest || null, // Hook to modify the request headers of each download. Defaults to none.
+        onAuthFailure: mergedOptions.onAuthFailure || null, // Hook to refresh credentials when a download is unauthorized. Defaults to none.
+        cacheKey: mergedOptions.cacheKey || null, // Maps a url to the key the cached file name is derived from. Can be overridden with the source cacheKey prop. Defaults to the full url.
+        maxConcurrentDownloads: mergedOptions.maxConcurrentDownloads || 6, // Maximum number of downloads that run at the same time, shared by all components. Defaults to 6.
+        retryPolicy: mergedOptions.retryPolicy || null, // How failed downloads are retried. Defaults to 3 attempts with exponential backoff.
+        allowedImageTypes: mergedOptions.allowedImageTypes || imageTypes, // Image types that downloads are accepted as. Defaults to all image types.
+        accept: mergedOptions.accept || null, // Accept header of downloads, source headers take precedence. Defaults to none.
       }
 
-      // Init file system lib
-      this.fileSystem = FileSystemFactory(
-        this.options.cachePruneTriggerLimit,
-        this.options.fileDirName,
-      )
+      // Init file system lib, the FileSystem of an ImageCacheProvider is shared unless this HOC configures its own.
+      // Without a provider the context is empty.
+      this.fileSystem = resolveFileSystem(context, options)
 
       // Validate input
       this.invalidUrl = !this._validateImageComponent()
     }
 
     _validateImageComponent() {
-      // Define validator options
-      const validatorUrlOptions: validator.IsURLOptions = {
-        protocols: this.options.validProtocols,
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        require_protocol: true,
-      }
-      if (this.options.fileHostWhitelist.length) {
-        // eslint-disable-next-line @typescript-eslint/camelcase
-        validatorUrlOptions.host_whitelist = this.options.fileHostWhitelist
-      }
+      this.urlError = this._getUrlError()
 
-      // Validate source prop to be a valid web accessible url.
-      if (
-        !traverse(this.props).get(['source', 'uri']) ||
-        !validator.isURL(traverse(this.props).get(['source', 'uri']), validatorUrlOptions)
-      ) {
+      if (this.urlError) {
         console.warn(
           'Invalid source prop. <CacheableImage> props.source.uri should be a web accessible url with a valid protocol and host. NOTE: Default valid protocol is https, default valid hosts are *.',
         )
@@ -212,6 +311,52 @@ const imageCacheHoc = <P extends object>(
       }
     }
 
+    /**
+     *
+     * Validates the source prop to be a valid web accessible url.
+     *
+     * @returns {CacheError|null} the reason the source uri is invalid, null if it is valid.
+     */
+    _getUrlError(): CacheError | null {
+      return getSourceUrlError(
+        traverse(this.props).get(['source', 'uri']),
+        this.options.validProtocols,
+        this.options.fileHostWhitelist,
+      )
+    }
+
+    /**
+     *
+     * Gets the options of the cache request for the current props.
+     *
+     * @returns {CacheRequestOptions}
+     */
+    _getCacheRequestOptions(): CacheRequestOptions {
+      return {
+        permanent: this.props.permanent,
+        maxAge: traverse(this.props).get(['source', 'maxAge']) ?? this.options.maxAge,
+        staleWhileRevalidate: this.options.staleWhileRevalidate,
+        headers: traverse(this.props).get(['source', 'headers']),
+        cacheKey: traverse(this.props).get(['source', 'cacheKey']),
+        priority: this.props.priority,
+        integrity: traverse(this.props).get(['source', 'integrity']),
+      }
+    }
+
+    /**
+     *
+     * Gets the name of the cached file of the source prop, used to lock the file.
+     *
+     * @param props {Object} - Component props.
+     * @returns {String}
+     */
+    _getFileName(props: ReactNativeImageCacheHocProps) {
+      return this.fileSystem.getFileNameFromUrl(
+        traverse(props).get(['source', 'uri']),
+        traverse(props).get(['source', 'cacheKey']),
+      )
+    }
+
     // Async calls to local FS or network should occur here.
     // See: https://reactjs.org/docs/react-component.html#componentdidmount
     componentDidMount() {
@@ -223,23 +368,29 @@ const imageCacheHoc = <P extends object>(
       const cacheStrategy = traverse(this.props).get(['source', 'cache']) || 'immutable'
       const isFile = url && new URL(url).protocol === 'file:'
 
+      this.onLoadStart()
+
       if (isFile || !this.invalidUrl) {
         if (isFile) {
-          this.onSourceLoaded({
-            path: url,
-            fileName: this.fileSystem.getFileNameFromUrl(url),
-          })
+          this.onSourceLoaded(
+            createCacheFileInfo({
+              path: url,
+              fileName: this.fileSystem.getFileNameFromUrl(url),
+              status: 'cached',
+              origin: 'disk',
+            }),
+          )
         } else {
           // Add a cache lock to file with this name (prevents concurrent <CacheableImage> components from pruning a file with this name from cache).
-          const fileName = this.fileSystem.getFileNameFromUrl(url)
+          const fileName = this._getFileName(this.props)
           FileSystem.lockCacheFile(fileName, this.componentId)
 
           // Init the image cache logic
-          this.subscription = this.fileSystem
-            .observable(url, this.componentId, cacheStrategy)
-            .pipe(takeUntil(this.unmounted$.pipe(skip(1))))
-            .subscribe((info) => this.onSourceLoaded(info))
+          this._observeSource(url, fileName, cacheStrategy)
         }
+      } else {
+        this.setState({ error: this.urlError ?? undefined })
+        this.onLoadEnd(this.urlError)
       }
     }
 
@@ -256,11 +407,11 @@ const imageCacheHoc = <P extends object>(
       const nextUrl = traverse(this.props).get(['source', 'uri'])
       const isFile = nextUrl && new URL(nextUrl).protocol === 'file:'
 
-      // Do nothing if url has not changed.
-      if (url === nextUrl) return
+      // Do nothing if the file has not changed, the file name depends on the url and the cache key.
+      const fileName = this._getFileName(prevProps)
+      if (url === nextUrl && fileName === this._getFileName(this.props)) return
 
       // Remove component cache lock on old image file, and add cache lock to new image file.
-      const fileName = this.fileSystem.getFileNameFromUrl(url)
       const cacheStrategy = traverse(this.props).get(['source', 'cache']) || 'immutable'
 
       FileSystem.unlockCacheFile(fileName, this.componentId)
@@ -268,77 +419,222 @@ const imageCacheHoc = <P extends object>(
 
       this.invalidUrl = !this._validateImageComponent()
 
+      this.onLoadStart()
+
       // Init the image cache logic
       if (isFile || !this.invalidUrl) {
         if (isFile) {
-          this.onSourceLoaded({
-            path: nextUrl,
-            fileName: this.fileSystem.getFileNameFromUrl(nextUrl),
-          })
+          this.onSourceLoaded(
+            createCacheFileInfo({
+              path: nextUrl,
+              fileName: this.fileSystem.getFileNameFromUrl(nextUrl),
+              status: 'cached',
+              origin: 'disk',
+            }),
+          )
         } else {
           // Add a cache lock to file with this name (prevents concurrent <CacheableImage> components from pruning a file with this name from cache).
-          const nextFileName = this.fileSystem.getFileNameFromUrl(nextUrl)
+          const nextFileName = this._getFileName(this.props)
           FileSystem.lockCacheFile(nextFileName, this.componentId)
 
-          this.subscription = this.fileSystem
-            .observable(nextUrl, this.componentId, cacheStrategy)
-            .pipe(takeUntil(this.unmounted$.pipe(skip(1))))
-            .subscribe((info) => this.onSourceLoaded(info))
+          this.setState({ error: undefined })
+          this._observeSource(nextUrl, nextFileName, cacheStrategy)
         }
       } else {
-        this.setState({ source: undefined })
+        this.setState({ source: undefined, error: this.urlError ?? undefined })
+        this.onLoadEnd(this.urlError)
       }
     }
 
+    /**
+     *
+     * Subscribes to the download progress of a file until the component is unmounted.
+     *
+     * @param fileName {String} - the cache file name.
+     * @returns {Subscription}
+     */
+    _subscribeToProgress(fileName: string) {
+      return this.fileSystem
+        .progressObservable(fileName)
+        .pipe(takeUntil(this.unmounted$.pipe(skip(1))))
+        .subscribe((progress) => this.onProgress(progress))
+    }
+
+    /**
+     *
+     * Subscribes to the cache observable and the download progress of a locked file until the component is unmounted.
+     *
+     * @param url {String} - url of the source.
+     * @param fileName {String} - the cache file name.
+     * @param cacheStrategy {CacheStrategy} - the cache strategy of the source.
+     */
+    _observeSource(url: string, fileName: string, cacheStrategy: CacheStrategy) {
+      this.subscription = this._subscribeToProgress(fileName)
+      this.subscription.add(
+        this.fileSystem
+          .observable(url, this.componentId, cacheStrategy, null, this._getCacheRequestOptions())
+          .pipe(takeUntil(this.unmounted$.pipe(skip(1))))
+          .subscribe((info) => this.onSourceLoaded(info)),
+      )
+    }
+
+    /**
+     *
+     * Requests a source that could not be loaded again, the failed request is shared with other components of the same file
+     * so they also receive the result. Sources with an invalid url are not requested.
+     */
+    retry() {
+      const url = traverse(this.props).get(['source', 'uri'])
+
+      if (!this.state.error || this.urlError || this.unmounted$.value) {
+        return
+      }
+
+      this.subscription?.unsubscribe()
+      this.setState({ error: undefined })
+      this.onLoadStart()
+
+      this._observeSource(
+        url,
+        this._getFileName(this.props),
+        traverse(this.props).get(['source', 'cache']) || 'immutable',
+      )
+    }
+
     componentWillUnmount() {
       // Track component mount status to avoid calling setState() on unmounted component.
       this.unmounted$.next(true)
 
       // Remove component cache lock on associated image file on component teardown.
-      const fileName = this.fileSystem.getFileNameFromUrl(
-        traverse(this.props).get(['source', 'uri']),
-      )
+      const fileName = this._getFileName(this.props)
       FileSystem.unlockCacheFile(fileName, this.componentId)
     }
 
-    onSourceLoaded({ path }: CacheFileInfo) {
+    onProgress(progress: DownloadProgress) {
+      this.setState({ progress })
+
+      if (this.props.onProgress) {
+        this.props.onProgress(progress)
+      }
+    }
+
+    onLoadStart() {
+      if (this.props.onLoadStart) {
+        this.props.onLoadStart()
+      }
+    }
+
+    /**
+     *
+     * Notifies that loading the source has ended.
+     *
+     * @param error {CacheError|null} - the reason the source could not be loaded, null if it was loaded.
+     */
+    onLoadEnd(error: CacheError | null = null) {
+      if (error && this.props.onError) {
+        this.props.onError(error)
+      }
+
+      if (this.props.onLoadEnd) {
+        this.props.onLoadEnd()
+      }
+    }
+
+    onSourceLoaded({ path, fileName, status, error }: CacheFileInfo) {
+      // The placeholder is rendered until the download completes.
+      if (status === 'loading') {
+        return
+      }
+
+      // The file was removed from the cache, e.g. by flush(), it is requested again.
+      if (status === 'unlinked') {
+        this.subscription?.unsubscribe()
+        this._observeSource(
+          traverse(this.props).get(['source', 'uri']),
+          this._getFileName(this.props),
+          traverse(this.props).get(['source', 'cache']) || 'immutable',
+        )
+        return
+      }
+
+      // The rendered file has not changed, e.g. it was not modified or could not be revalidated.
+      if ((status === 'notModified' || status === 'error') && path && path === this.loadedPath) {
+        return
+      }
+
+      this.loadedPath = path
       this.setState({
         source: path
           ? {
               uri: path + (Platform.OS === 'android' ? '?' + Date.now() : ''),
             }
           : undefined,
+        progress: undefined,
+        error: path ? undefined : error,
       })
       this.invalidUrl = path === null
-
-      if (path && this.props.onLoadFinished) {
-        Image.getSize(path, (width, height) => {
-          if (!this.unmounted$.value && this.props.onLoadFinished) {
-            this.props.onLoadFinished({ width, height })
-          }
-        })
+      this.onLoadEnd(path ? null : error)
+
+      // Record the dimensions in the cache manifest
+      if (path) {
+        this.fileSystem
+          .getImageSize(fileName, path)
+          .then((size) => {
+            if (!this.unmounted$.value && this.props.onLoadFinished) {
+              this.props.onLoadFinished(size)
+            }
+          })
+          .catch(() => undefined)
       }
     }
 
+    renderPlaceholder(placeholder: ReactNode | PlaceholderRenderer) {
+      return typeof placeholder === 'function'
+        ? placeholder(this.state.progress ?? null)
+        : placeholder
+    }
+
+    renderErrorPlaceholder(
+      errorPlaceholder: ReactNode | ErrorPlaceholderRenderer,
+      error: CacheError,
+    ) {
+      return typeof errorPlaceholder === 'function'
+        ? errorPlaceholder(error, () => this.retry())
+        : errorPlaceholder
+    }
+
     render() {
       // If media loaded, render full image component, else render placeholder.
       if (this.state.source) {
         // Android caches images in memory, if we are rendering the image should have changed locally so appending a timestamp to the path forces it to be loaded from disk
         // The internals of te Android behaviour have not been investigated but perhaps it would be beneficial to use the last modified date instead
+        // The progress and load events are not passed through as they would receive the events of the wrapped component loading the local file.
+        const { onProgress, onLoadStart, onError, onLoadEnd, ...imageProps } = this.props
         const props = {
-          ...this.props,
+          ...imageProps,
           source: this.state.source,
         }
 
         return <Wrapped key={this.componentId} {...(props as P)} />
       } else {
-        if (this.props.placeholder) {
-          return this.props.placeholder
+        const errorPlaceholder = this.props.errorPlaceholder || this.options.defaultErrorPlaceholder
+
+        if (this.state.error && errorPlaceholder) {
+          return this.renderErrorPlaceholder(errorPlaceholder, this.state.error)
+        } else if (this.props.placeholder) {
+          return this.renderPlaceholder(this.props.placeholder)
         } else if (this.options.defaultPlaceholder) {
-          return this.options.defaultPlaceholder
+          return this.renderPlaceholder(this.options.defaultPlaceholder)
         } else {
           // Extract props proprietary to this HOC before passing props through.
-          const { source, ...filteredProps } = this.props
+          const {
+            source,
+            onProgress,
+            onLoadStart,
+            onError,
+            onLoadEnd,
+            ...filteredProps
+          } = this.props
 
           return <Wrapped {...(filteredProps as P)} />
         }
@@ -347,4 +643,15 @@ const imageCacheHoc = <P extends object>(
   }
 }
 
-export { imageCacheHoc, FileSystem, FileSystemFactory }
+export {
+  imageCacheHoc,
+  FileSystem,
+  FileSystemFactory,
+  stripQueryParams,
+  stripAllQueryParams,
+  CacheError,
+  useCachedImage,
+  ImageCacheProvider,
+  ImageCacheContext,
+  useImageCache,
+}
@@ -0,0 +1,178 @@
+/**
+ *
+ * Hook that resolves a source to a cached local file, an alternative to the HOC for function components and for image
+ * components that are not wrapped, e.g. <ImageBackground> or <Animated.Image>.
+ *
+ * Like the HOC the file is locked while the source is rendered so that it is not pruned from the cache.
+ *
+ */
+
+import { useContext, useEffect, useRef, useState } from 'react'
+import { Platform } from 'react-native'
+import uuid from 'react-native-uuid'
+import URL from 'url-parse'
+import { CacheFileInfo, DownloadProgress, FileSystem } from './FileSystem'
+import { CacheError } from './CacheError'
+import { getSourceUrlError } from './SourceUrl'
+import { mergeOptions } from './Options'
+import { ImageCacheContext, resolveFileSystem } from './ImageCacheProvider'
+import { ReactNativeImageCacheHocOptions, Source } from '.'
+
+/**
+ * idle: there is no source uri.
+ * loading: the source is being requested from the cache or downloaded.
+ * loaded: uri is the local file of the source.
+ * error: the source could not be loaded, see error.
+ */
+export type CachedImageStatus = 'idle' | 'loading' | 'loaded' | 'error'
+
+export interface CachedImageOptions
+  extends Omit<ReactNativeImageCacheHocOptions, 'defaultPlaceholder' | 'defaultErrorPlaceholder'> {
+  permanent?: boolean // Store the file in the permanent tier which is never pruned. Defaults to false.
+  priority?: number // Queued downloads with a higher priority are started first. Defaults to 0.
+}
+
+export interface CachedImage {
+  uri: string | null // Local file uri of the source, null until it is loaded.
+  status: CachedImageStatus
+  progress: DownloadProgress | null // Progress of the download, null until the download begins.
+  error: CacheError | null // The reason the source could not be loaded.
+  cacheInfo: CacheFileInfo | null // The latest state of the cached file, e.g. its origin and whether it is revalidating.
+  reload(): void // Requests the source again, e.g. after it could not be loaded.
+}
+
+type CachedImageState = Omit<CachedImage, 'reload'>
+
+const idleState: CachedImageState = {
+  uri: null,
+  status: 'idle',
+  progress: null,
+  error: null,
+  cacheInfo: null,
+}
+
+/**
+ *
+ * Resolves a source to a cached local file, downloading it if it has not been cached.
+ * The options take precedence over the config of an ImageCacheProvider, whose FileSystem is shared unless the options
+ * configure their own. The FileSystem is configured with the options of the first render.
+ *
+ * @param source {Source} - the source, with the same properties as the source prop of the HOC.
+ * @param options {CachedImageOptions} - the HOC options and the tier and download priority of the file.
+ * @returns {CachedImage} the local file uri, status, download progress and error of the source.
+ */
+export const useCachedImage = (
+  source: Source | null | undefined,
+  options: CachedImageOptions = {},
+): CachedImage => {
+  // Assign a unique ID for cache locking.
+  const [componentId] = useState(() => uuid.v4())
+  const context = useContext(ImageCacheContext)
+  const mergedOptions: CachedImageOptions = mergeOptions(context?.config ?? {}, options)
+  const [fileSystem] = useState(() => resolveFileSystem(context, options))
+  const [state, setState] = useState<CachedImageState>(idleState)
+  const [reloads, setReloads] = useState(0)
+
+  // Request options that are objects are read when the source is requested, rather than requesting it on every render.
+  const latest = useRef({ source, options: mergedOptions })
+  latest.current = { source, options: mergedOptions }
+
+  const url = source?.uri
+  const cacheStrategy = source?.cache || 'immutable'
+  const cacheKey = source?.cacheKey
+
+  useEffect(() => {
+    const { source: currentSource, options: currentOptions } = latest.current
+
+    if (!url) {
+      setState(idleState)
+      return
+    }
+
+    if (new URL(url).protocol === 'file:') {
+      setState({ uri: url, status: 'loaded', progress: null, error: null, cacheInfo: null })
+      return
+    }
+
+    const urlError = getSourceUrlError(
+      url,
+      currentOptions.validProtocols || ['https'],
+      currentOptions.fileHostWhitelist || [],
+    )
+    if (urlError) {
+      setState({ uri: null, status: 'error', progress: null, error: urlError, cacheInfo: null })
+      return
+    }
+
+    // Add a cache lock to the file (prevents concurrent components from pruning a file with this name from cache).
+    const fileName = fileSystem.getFileNameFromUrl(url, cacheKey)
+    FileSystem.lockCacheFile(fileName, componentId)
+
+    setState({ uri: null, status: 'loading', progress: null, error: null, cacheInfo: null })
+
+    const subscription = fileSystem
+      .progressObservable(fileName)
+      .subscribe((progress) => setState((current) => ({ ...current, progress })))
+    subscription.add(
+      fileSystem
+        .observable(url, componentId, cacheStrategy, null, {
+          permanent: currentOptions.permanent,
+          maxAge: currentSource?.maxAge ?? currentOptions.maxAge ?? null,
+          staleWhileRevalidate: currentOptions.staleWhileRevalidate ?? true,
+          headers: currentSource?.headers,
+          cacheKey,
+          priority: currentOptions.priority,
+          integrity: currentSource?.integrity,
+        })
+        .subscribe((cacheInfo) => {
+          // The file was removed from the cache, e.g. by flush(), it is requested again.
+          if (cacheInfo.status === 'unlinked') {
+            setReloads((count) => count + 1)
+            return
+          }
+
+          // Record the dimensions in the cache manifest
+          if (cacheInfo.path && (cacheInfo.status === 'cached' || cacheInfo.status === 'updated')) {
+            fileSystem.getImageSize(fileName, cacheInfo.path).catch(() => undefined)
+          }
+
+          setState((current) => {
+            const { path, status, error } = cacheInfo
+
+            if (status === 'loading') {
+              return { ...current, status: 'loading', cacheInfo }
+            }
+
+            if (!path) {
+              return { uri: null, status: 'error', progress: null, error: error ?? null, cacheInfo }
+            }
+
+            // The file has not changed, e.g. it was not modified or could not be revalidated.
+            if ((status === 'notModified' || status === 'error') && current.uri) {
+              return { ...current, cacheInfo }
+            }
+
+            return {
+              // Android caches images in memory, the timestamp forces an updated file to be loaded from disk.
+              uri: path + (Platform.OS === 'android' ? '?' + Date.now() : ''),
+              status: 'loaded',
+              progress: null,
+              error: null,
+              cacheInfo,
+            }
+          })
+        }),
+    )
+
+    // Remove the cache lock when the source changes or the component is unmounted.
+    return () => {
+      subscription.unsubscribe()
+      FileSystem.unlockCacheFile(fileName, componentId)
+    }
+  }, [url, cacheStrategy, cacheKey, reloads, fileSystem, componentId])
+
+  return {
+    ...state,
+    reload: () => setReloads((count) => count + 1),
+  }
+}
@@ -0,0 +1,28 @@
+import { stripAllQueryParams, stripQueryParams } from '../src/CacheKey'
+
+describe('CacheKey', () => {
+  it('#stripQueryParams should remove only the given query parameters.', () => {
+    const cacheKey = stripQueryParams(['Expires', 'Signature'])
+
+    expect(
+      cacheKey('https://cdn.example.com/photo.jpg?Expires=1600000000&width=200&Signature=abc#hash'),
+    ).toBe('https://cdn.example.com/photo.jpg?width=200#hash')
+    expect(cacheKey('https://cdn.example.com/photo.jpg?Expires=1600000000&Signature=abc')).toBe(
+      'https://cdn.example.com/photo.jpg',
+    )
+  })
+
+  it('#stripQueryParams should give signed urls of the same file the same key.', () => {
+    const cacheKey = stripQueryParams(['X-Amz-Date', 'X-Amz-Signature'])
+
+    expect(
+      cacheKey('https://bucket.s3.amazonaws.com/photo.jpg?X-Amz-Date=1&X-Amz-Signature=one'),
+    ).toBe(cacheKey('https://bucket.s3.amazonaws.com/photo.jpg?X-Amz-Date=2&X-Amz-Signature=two'))
+  })
+
+  it('#stripAllQueryParams should remove the query string.', () => {
+    expect(stripAllQueryParams('https://cdn.example.com/photo.jpg?Expires=1&width=200#hash')).toBe(
+      'https://cdn.example.com/photo.jpg#hash',
+    )
+  })
+})
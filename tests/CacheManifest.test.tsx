@@ -0,0 +1,166 @@
+import RNFS from 'react-native-fs'
+import { mocked } from 'ts-jest/utils'
+import { CacheManifest } from '../src/CacheManifest'
+import { mockData, mockEntry } from './mockData'
+
+describe('CacheManifest', () => {
+  const MockedRNFS = mocked(RNFS, true)
+  const baseFilePath = mockData.basePath + '/react-native-image-cache-hoc/'
+
+  beforeEach(function () {
+    jest.clearAllMocks()
+  })
+
+  it('When the manifest exists, it should be loaded without reading the directory', async () => {
+    MockedRNFS.readFile.mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        entries: {
+          'a.jpg': mockEntry({ fileName: 'a.jpg', url: 'https://example.com/a.jpg' }),
+        },
+      }),
+    )
+
+    const manifest = await CacheManifest.load(baseFilePath, 'permanent')
+
+    expect(MockedRNFS.readFile).toHaveBeenCalledWith(baseFilePath + 'manifest.json', 'utf8')
+    expect(MockedRNFS.readDir).not.toHaveBeenCalled()
+    expect(manifest.get('a.jpg')?.url).toBe('https://example.com/a.jpg')
+  })
+
+  it('When the manifest is corrupt, it should be rebuilt from the directory contents', async () => {
+    MockedRNFS.readFile.mockResolvedValueOnce('{"version":1,"entr')
+    MockedRNFS.readDir
+      // Permanent directory
+      .mockResolvedValueOnce([
+        {
+          ctime: new Date(1508878829000),
+          mtime: new Date(1508878829000),
+          name: 'permanent.jpg',
+          path: baseFilePath + 'permanent/permanent.jpg',
+          size: '200',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ])
+      // Cache directory
+      .mockResolvedValueOnce([
+        {
+          ctime: new Date(1508877930000),
+          mtime: new Date(1508877930000),
+          name: 'cached.jpg',
+          path: baseFilePath + 'cached.jpg',
+          size: '100',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+        {
+          ctime: new Date(1508877930000),
+          mtime: new Date(1508877930000),
+          name: 'manifest.json',
+          path: baseFilePath + 'manifest.json',
+          size: '100',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+        {
+          ctime: new Date(1508877930000),
+          mtime: new Date(1508877930000),
+          name: 'permanent',
+          path: baseFilePath + 'permanent',
+          size: '4096',
+          isFile: () => false,
+          isDirectory: () => true,
+        },
+      ])
+
+    const manifest = await CacheManifest.load(baseFilePath, 'permanent')
+
+    expect(manifest.entries).toStrictEqual({
+      'permanent.jpg': mockEntry({
+        fileName: 'permanent.jpg',
+        permanent: true,
+        size: 200,
+        createdAt: 1508878829000,
+        validatedAt: 1508878829000,
+        lastAccess: 1508878829000,
+      }),
+      'cached.jpg': mockEntry({
+        fileName: 'cached.jpg',
+        size: 100,
+        createdAt: 1508877930000,
+        validatedAt: 1508877930000,
+        lastAccess: 1508877930000,
+      }),
+    })
+    expect(MockedRNFS.writeFile).toHaveBeenCalled()
+  })
+
+  it('When the manifest is missing, it should be rebuilt from the directory contents', async () => {
+    MockedRNFS.readFile.mockRejectedValueOnce(new Error('File not found.'))
+
+    const manifest = await CacheManifest.load(baseFilePath, 'permanent')
+
+    expect(MockedRNFS.readDir).toHaveBeenCalledTimes(2)
+    expect(manifest.values()).toHaveLength(5)
+  })
+
+  it('When several changes are made, they should be written to disk together', async () => {
+    const manifest = new CacheManifest(baseFilePath, 'permanent')
+
+    manifest.set(mockEntry({ fileName: 'a.jpg' }))
+    manifest.set(mockEntry({ fileName: 'b.jpg' }))
+    manifest.update('a.jpg', { width: 100, height: 200 })
+    await manifest.delete('b.jpg')
+
+    expect(MockedRNFS.writeFile).toHaveBeenCalledTimes(1)
+    expect(JSON.parse(MockedRNFS.writeFile.mock.calls[0][1])).toStrictEqual({
+      version: 1,
+      entries: {
+        'a.jpg': mockEntry({ fileName: 'a.jpg', width: 100, height: 200 }),
+      },
+      aliases: {},
+    })
+  })
+
+  it('When a file is stored under another name, it should be found by either name', async () => {
+    const manifest = new CacheManifest(baseFilePath, 'permanent')
+
+    manifest.set(mockEntry({ fileName: 'a.png' }))
+    manifest.setAlias('a.bin', 'a.png')
+    await manifest.update('a.bin', { width: 100 })
+
+    expect(manifest.resolve('a.bin')).toBe('a.png')
+    expect(manifest.resolve('a.png')).toBe('a.png')
+    expect(manifest.aliasesOf('a.png')).toEqual(['a.bin'])
+    expect(manifest.get('a.bin')).toBe(manifest.get('a.png'))
+    expect(manifest.get('a.png')?.width).toBe(100)
+
+    expect(JSON.parse(MockedRNFS.writeFile.mock.calls[0][1]).aliases).toStrictEqual({
+      'a.bin': 'a.png',
+    })
+
+    await manifest.delete('a.bin')
+
+    expect(manifest.get('a.png')).toBeUndefined()
+    expect(manifest.resolve('a.bin')).toBe('a.bin')
+  })
+
+  it('When the manifest has aliases, they should be loaded', async () => {
+    MockedRNFS.readFile.mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        entries: {
+          'a.png': mockEntry({ fileName: 'a.png', url: 'https://example.com/a' }),
+        },
+        aliases: {
+          'a.bin': 'a.png',
+        },
+      }),
+    )
+
+    const manifest = await CacheManifest.load(baseFilePath, 'permanent')
+
+    expect(manifest.get('a.bin')?.url).toBe('https://example.com/a')
+  })
+})
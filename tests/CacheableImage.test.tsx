@@ -1,14 +1,21 @@
 import 'should'
-import { mockData } from './mockData'
-import { FileSystem, imageCacheHoc, ReactNativeImageCacheHocOptions } from '../src/index'
+import { mockData, mockEntry } from './mockData'
+import {
+  CacheError,
+  FileSystem,
+  imageCacheHoc,
+  ReactNativeImageCacheHocOptions,
+  stripAllQueryParams,
+} from '../src/index'
 import { Image, Text } from 'react-native'
 import 'should-sinon'
 import RNFS from 'react-native-fs'
 import { shallow } from 'enzyme'
 import React from 'react'
 import { mocked } from 'ts-jest/utils'
-import { ReplaySubject } from 'rxjs'
-import { CacheFileInfo } from '../src/FileSystem'
+import { of, ReplaySubject } from 'rxjs'
+import { take } from 'rxjs/operators'
+import { CacheFileInfo, createCacheFileInfo, DownloadProgress } from '../src/FileSystem'
 
 describe('CacheableImage', function () {
   const originalWarn = console.warn
@@ -52,12 +59,84 @@ describe('CacheableImage', function () {
       }),
     ).toThrow('defaultPlaceholder option must be a ReactNode')
 
+    expect(() =>
+      imageCacheHoc(Image, {
+        defaultErrorPlaceholder: 5478329 as any,
+      }),
+    ).toThrow('defaultErrorPlaceholder option must be a ReactNode')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        allowedImageTypes: ['png', 'svg'] as any,
+      }),
+    ).toThrow('allowedImageTypes option must be a non-empty array')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        allowedImageTypes: [],
+      }),
+    ).toThrow('allowedImageTypes option must be a non-empty array')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        accept: ['image/webp'] as any,
+      }),
+    ).toThrow('accept option must be a string.')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        maxAge: -1,
+      }),
+    ).toThrow('maxAge option must be a positive number.')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        evictionPolicy: 'random' as any,
+      }),
+    ).toThrow('evictionPolicy option must be one of fifo, lru, lfu, size or a comparator function.')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        onBeforeRequest: 'hook' as any,
+      }),
+    ).toThrow('onBeforeRequest option must be a function.')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        onAuthFailure: 'hook' as any,
+      }),
+    ).toThrow('onAuthFailure option must be a function.')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        cacheKey: 'key' as any,
+      }),
+    ).toThrow('cacheKey option must be a function.')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        maxConcurrentDownloads: 0,
+      }),
+    ).toThrow('maxConcurrentDownloads option must be a positive integer.')
+
+    expect(() =>
+      imageCacheHoc(Image, {
+        retryPolicy: { maxAttempts: 0 },
+      }),
+    ).toThrow('retryPolicy option must be an object with a positive integer maxAttempts.')
+
     const validOptions: ReactNativeImageCacheHocOptions = {
       validProtocols: ['http', 'https'],
       fileHostWhitelist: ['i.redd.it', 'localhost'],
       cachePruneTriggerLimit: 1024 * 1024 * 10,
       fileDirName: 'test-dir',
       defaultPlaceholder: <Text>Default Placeholder</Text>,
+      maxAge: 60 * 60 * 24,
+      evictionPolicy: 'size',
+      onBeforeRequest: async (_url, headers) => headers,
+      onAuthFailure: async () => false,
+      retryPolicy: { maxAttempts: 5, retryableStatusCodes: [503] },
+      staleWhileRevalidate: false,
     }
 
     // Valid options shouldn't throw an error
@@ -67,6 +146,10 @@ describe('CacheableImage', function () {
     const cacheableImage = new CacheableImage(mockData.mockCacheableImageProps)
 
     cacheableImage.options.should.have.properties(validOptions)
+
+    // Check request hooks are passed to the file system
+    expect(cacheableImage.fileSystem.onBeforeRequest).toBe(validOptions.onBeforeRequest)
+    expect(cacheableImage.fileSystem.onAuthFailure).toBe(validOptions.onAuthFailure)
   })
 
   it('#cacheFile static method should work as expected for cache dir files.', () => {
@@ -81,6 +164,18 @@ describe('CacheableImage', function () {
     })
   })
 
+  it('#cacheFile static method should work as expected for permanent dir files.', () => {
+    const CacheableImage = imageCacheHoc(Image)
+
+    return CacheableImage.cacheFile('https://i.redd.it/rc29s4bz61uz.png', true).then((result) => {
+      result.should.deepEqual({
+        url: 'https://i.redd.it/rc29s4bz61uz.png',
+        localFilePath:
+          'file:///base/file/path/react-native-image-cache-hoc/permanent/d3b74e9fa8248a5805e2dcf17a8577acd28c089b.png',
+      })
+    })
+  })
+
   describe('cacheLocalFile', () => {
     it('When local file exists, it should be copied to the cache', async () => {
       const CacheableImage = imageCacheHoc(Image)
@@ -147,16 +242,22 @@ describe('CacheableImage', function () {
 
       await CacheableImage.cacheLocalFile(local, url)
 
-      FileSystem.cacheObservables['90c1be491d18ff2a7280039e9b65749461a65403.png'].subscribe(
-        (value) => {
+      FileSystem.cacheObservables['90c1be491d18ff2a7280039e9b65749461a65403.png']
+        .pipe(take(1))
+        .subscribe((value) => {
           expect(value).toStrictEqual({
             path:
               'file:///base/file/path/react-native-image-cache-hoc/90c1be491d18ff2a7280039e9b65749461a65403.png',
             fileName: '90c1be491d18ff2a7280039e9b65749461a65403.png',
+            status: 'updated',
+            origin: 'disk',
+            statusCode: null,
+            requestedAt: expect.any(Number),
+            timestamp: expect.any(Number),
           })
+          delete FileSystem.cacheObservables['90c1be491d18ff2a7280039e9b65749461a65403.png']
           done()
-        },
-      )
+        })
     })
   })
 
@@ -169,6 +270,27 @@ describe('CacheableImage', function () {
     expect(CacheableImage.flush()).resolves.toBe(true)
   })
 
+  it('#getStats and #listEntries static methods should describe the cache.', async () => {
+    const CacheableImage = imageCacheHoc(Image, {
+      cachePruneTriggerLimit: 1024,
+      fileDirName: 'stats',
+    })
+    const manifest = await CacheableImage.fileSystem().manifest()
+    manifest.entries = {}
+    manifest.set(
+      mockEntry({ url: 'https://example.com/cached.png', fileName: 'cached.png', size: 10 }),
+    )
+
+    await expect(CacheableImage.getStats()).resolves.toMatchObject({
+      totalBytes: 10,
+      entryCount: 1,
+      pruneLimit: 1024,
+    })
+    await expect(CacheableImage.listEntries()).resolves.toEqual([
+      expect.objectContaining({ url: 'https://example.com/cached.png', fileName: 'cached.png' }),
+    ])
+  })
+
   it('#constructor should initialize class object properties correctly.', () => {
     const CacheableImage = imageCacheHoc(Image)
 
@@ -185,6 +307,7 @@ describe('CacheableImage', function () {
       cachePruneTriggerLimit: 15728640,
       fileDirName: null,
       defaultPlaceholder: null,
+      defaultErrorPlaceholder: null,
     })
     cacheableImage.fileSystem.should.have.properties({
       cachePruneTriggerLimit: 15728640,
@@ -286,6 +409,469 @@ describe('CacheableImage', function () {
     setStateSpy.mockRestore()
   })
 
+  it('When the source has a maxAge, it should override the maxAge option', () => {
+    const CacheableImage = imageCacheHoc(Image, { maxAge: 60 })
+
+    const observableSpy = jest.spyOn(FileSystem.prototype, 'observable')
+
+    shallow(<CacheableImage source={{ uri: 'https://example.com/avatar.jpg', maxAge: 10 }} />)
+    shallow(<CacheableImage source={{ uri: 'https://example.com/banner.jpg' }} permanent />)
+
+    expect(observableSpy).toHaveBeenNthCalledWith(
+      1,
+      'https://example.com/avatar.jpg',
+      expect.any(String),
+      'immutable',
+      null,
+      { permanent: undefined, maxAge: 10, staleWhileRevalidate: true },
+    )
+    expect(observableSpy).toHaveBeenNthCalledWith(
+      2,
+      'https://example.com/banner.jpg',
+      expect.any(String),
+      'immutable',
+      null,
+      { permanent: true, maxAge: 60, staleWhileRevalidate: true },
+    )
+
+    observableSpy.mockRestore()
+  })
+
+  it('When the maxAge option is 0, it should be passed to the file system like a source maxAge of 0', () => {
+    expect(() => imageCacheHoc(Image, { maxAge: '0' as any })).toThrow(
+      'maxAge option must be a positive number.',
+    )
+
+    const CacheableImage = imageCacheHoc(Image, { maxAge: 0 })
+
+    const observableSpy = jest.spyOn(FileSystem.prototype, 'observable')
+
+    shallow(<CacheableImage source={{ uri: 'https://example.com/always-stale.jpg' }} />)
+
+    expect(observableSpy).toHaveBeenCalledWith(
+      'https://example.com/always-stale.jpg',
+      expect.any(String),
+      'immutable',
+      null,
+      { permanent: undefined, maxAge: 0, staleWhileRevalidate: true },
+    )
+
+    observableSpy.mockRestore()
+  })
+
+  it('When the source has headers, they should be passed to the file system on mount and update', () => {
+    const CacheableImage = imageCacheHoc(Image)
+
+    const observableSpy = jest.spyOn(FileSystem.prototype, 'observable')
+    const headers = { Authorization: 'Bearer token' }
+
+    const wrapper = shallow(
+      <CacheableImage source={{ uri: 'https://example.com/private.jpg', headers }} />,
+    )
+    wrapper.setProps({ source: { uri: 'https://example.com/private-2.jpg', headers } })
+
+    expect(observableSpy).toHaveBeenCalledTimes(2)
+    expect(observableSpy).toHaveBeenNthCalledWith(
+      1,
+      'https://example.com/private.jpg',
+      expect.any(String),
+      'immutable',
+      null,
+      expect.objectContaining({ headers }),
+    )
+    expect(observableSpy).toHaveBeenNthCalledWith(
+      2,
+      'https://example.com/private-2.jpg',
+      expect.any(String),
+      'immutable',
+      null,
+      expect.objectContaining({ headers }),
+    )
+
+    observableSpy.mockRestore()
+  })
+
+  it('When the source has an integrity, it should be passed to the file system', () => {
+    const CacheableImage = imageCacheHoc(Image)
+
+    const observableSpy = jest.spyOn(FileSystem.prototype, 'observable')
+    const integrity = 'sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ='
+
+    shallow(<CacheableImage source={{ uri: 'https://example.com/verified.jpg', integrity }} />)
+
+    expect(observableSpy).toHaveBeenCalledWith(
+      'https://example.com/verified.jpg',
+      expect.any(String),
+      'immutable',
+      null,
+      expect.objectContaining({ integrity }),
+    )
+
+    observableSpy.mockRestore()
+  })
+
+  it('When the source has a cacheKey, the file should be locked and requested by its key', () => {
+    const CacheableImage = imageCacheHoc(Image, { cacheKey: stripAllQueryParams })
+
+    const observableSpy = jest.spyOn(FileSystem.prototype, 'observable')
+    const lockSpy = jest.spyOn(FileSystem, 'lockCacheFile')
+    const unlockSpy = jest.spyOn(FileSystem, 'unlockCacheFile')
+
+    const wrapper = shallow(
+      <CacheableImage
+        source={{ uri: 'https://example.com/signed.jpg?Signature=one', cacheKey: 'avatar-1' }}
+      />,
+    )
+    wrapper.setProps({ source: { uri: 'https://example.com/signed.jpg?Signature=two' } })
+
+    const fileSystem = CacheableImage.fileSystem()
+    const keyFileName = fileSystem.getFileNameFromUrl('https://example.com/signed.jpg', 'avatar-1')
+    const urlFileName = fileSystem.getFileNameFromUrl('https://example.com/signed.jpg')
+
+    expect(lockSpy).toHaveBeenNthCalledWith(1, keyFileName, expect.any(String))
+    expect(unlockSpy).toHaveBeenNthCalledWith(1, keyFileName, expect.any(String))
+    expect(lockSpy).toHaveBeenNthCalledWith(2, urlFileName, expect.any(String))
+    expect(observableSpy).toHaveBeenNthCalledWith(
+      1,
+      'https://example.com/signed.jpg?Signature=one',
+      expect.any(String),
+      'immutable',
+      null,
+      expect.objectContaining({ cacheKey: 'avatar-1' }),
+    )
+
+    wrapper.unmount()
+    expect(unlockSpy).toHaveBeenNthCalledWith(2, urlFileName, expect.any(String))
+
+    observableSpy.mockRestore()
+    lockSpy.mockRestore()
+    unlockSpy.mockRestore()
+  })
+
+  it('When only the cacheKey of the source changes, the lock should move to the new file', () => {
+    const CacheableImage = imageCacheHoc(Image)
+    const uri = 'https://example.com/keyed.jpg'
+
+    const wrapper = shallow(<CacheableImage source={{ uri, cacheKey: 'avatar-1' }} />)
+    wrapper.setProps({ source: { uri, cacheKey: 'avatar-2' } })
+
+    const fileSystem = CacheableImage.fileSystem()
+    const firstFileName = fileSystem.getFileNameFromUrl(uri, 'avatar-1')
+    const secondFileName = fileSystem.getFileNameFromUrl(uri, 'avatar-2')
+
+    expect(FileSystem.cacheLock[firstFileName]).toBeUndefined()
+    expect(Object.keys(FileSystem.cacheLock[secondFileName])).toHaveLength(1)
+
+    wrapper.unmount()
+    expect(FileSystem.cacheLock[secondFileName]).toBeUndefined()
+  })
+
+  it('When a download progresses, onProgress and the placeholder of every component of the file should receive the progress', () => {
+    const CacheableImage = imageCacheHoc(Image)
+    const url = 'https://example.com/hero.jpg'
+    const fileName = CacheableImage.fileSystem().getFileNameFromUrl(url)
+
+    const onProgress = jest.fn()
+    const placeholder = jest.fn((progress: DownloadProgress | null) => (
+      <Text>{progress ? progress.bytesWritten + '/' + progress.contentLength : 'waiting'}</Text>
+    ))
+
+    const first = shallow(
+      <CacheableImage source={{ uri: url }} onProgress={onProgress} placeholder={placeholder} />,
+    )
+    const second = shallow(<CacheableImage source={{ uri: url }} placeholder={placeholder} />)
+
+    expect(first.find(Text).prop('children')).toBe('waiting')
+
+    FileSystem.progress$.next({ fileName, bytesWritten: 50, contentLength: 100 })
+
+    expect(onProgress).toHaveBeenCalledWith({ fileName, bytesWritten: 50, contentLength: 100 })
+    expect(first.find(Text).prop('children')).toBe('50/100')
+    expect(second.find(Text).prop('children')).toBe('50/100')
+
+    first.unmount()
+    second.unmount()
+  })
+
+  it('When a source loads, onLoadStart and onLoadEnd should be called and not passed to the image', async () => {
+    const CacheableImage = imageCacheHoc(Image)
+
+    const onLoadStart = jest.fn()
+    const onError = jest.fn()
+    const onLoadEnd = jest.fn()
+
+    const wrapper = shallow(
+      <CacheableImage
+        source={{ uri: 'https://example.com/loaded.jpg' }}
+        onLoadStart={onLoadStart}
+        onError={onError}
+        onLoadEnd={onLoadEnd}
+      />,
+    )
+
+    expect(onLoadStart).toHaveBeenCalledTimes(1)
+    expect(onLoadEnd).not.toHaveBeenCalled()
+
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(onLoadEnd).toHaveBeenCalledTimes(1)
+    expect(onError).not.toHaveBeenCalled()
+    expect(wrapper.find(Image).props()).not.toHaveProperty('onLoadStart')
+    expect(wrapper.find(Image).props()).not.toHaveProperty('onError')
+    expect(wrapper.find(Image).props()).not.toHaveProperty('onLoadEnd')
+  })
+
+  it('When the source uri is invalid, onError should receive an invalidUrl error', () => {
+    console.warn = jest.fn()
+    const CacheableImage = imageCacheHoc(Image)
+
+    const onError = jest.fn()
+    const onLoadEnd = jest.fn()
+
+    shallow(
+      <CacheableImage
+        source={{ uri: 'http://example.com/insecure.jpg' }}
+        onError={onError}
+        onLoadEnd={onLoadEnd}
+      />,
+    )
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ type: 'invalidUrl' }))
+    expect(onLoadEnd).toHaveBeenCalledTimes(1)
+  })
+
+  it('When the source host is not whitelisted, onError should receive a hostNotAllowed error', () => {
+    console.warn = jest.fn()
+    const CacheableImage = imageCacheHoc(Image, { fileHostWhitelist: ['i.redd.it'] })
+
+    const onError = jest.fn()
+    const wrapper = shallow(
+      <CacheableImage source={{ uri: 'https://i.redd.it/allowed.jpg' }} onError={onError} />,
+    )
+
+    expect(onError).not.toHaveBeenCalled()
+
+    wrapper.setProps({ source: { uri: 'https://example.com/blocked.jpg' } })
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ type: 'hostNotAllowed' }))
+  })
+
+  it('When a download fails, onError should receive the error of the file system', () => {
+    const CacheableImage = imageCacheHoc(Image)
+    const error = new CacheError('httpStatus', 'Request failed 404', { statusCode: 404 })
+
+    const observableSpy = jest.spyOn(FileSystem.prototype, 'observable').mockReturnValue(
+      of(
+        createCacheFileInfo({
+          path: null,
+          fileName: 'missing.jpg',
+          status: 'error',
+          origin: 'network',
+          statusCode: 404,
+          error,
+        }),
+      ),
+    )
+
+    const onError = jest.fn()
+    const onLoadEnd = jest.fn()
+
+    shallow(
+      <CacheableImage
+        source={{ uri: 'https://example.com/missing.jpg' }}
+        onError={onError}
+        onLoadEnd={onLoadEnd}
+      />,
+    )
+
+    expect(onError).toHaveBeenCalledWith(error)
+    expect(onLoadEnd).toHaveBeenCalledTimes(1)
+
+    observableSpy.mockRestore()
+  })
+
+  it('When a download fails, the errorPlaceholder should be rendered and retry should request the source again', () => {
+    const CacheableImage = imageCacheHoc(Image)
+    const url = 'https://example.com/broken.jpg'
+    const fileName = CacheableImage.fileSystem().getFileNameFromUrl(url)
+    const error = new CacheError('network', 'The Internet connection appears to be offline.')
+
+    const observableSpy = jest
+      .spyOn(FileSystem.prototype, 'observable')
+      .mockReturnValueOnce(
+        of(
+          createCacheFileInfo({ path: null, fileName, status: 'error', origin: 'network', error }),
+        ),
+      )
+      .mockReturnValueOnce(
+        of(createCacheFileInfo({ path: 'file:///cache/' + fileName, fileName, status: 'cached' })),
+      )
+
+    const onLoadStart = jest.fn()
+    const errorPlaceholder = jest.fn((cacheError: CacheError, retry: () => void) => (
+      <Text onPress={retry}>{cacheError.type}</Text>
+    ))
+
+    const wrapper = shallow(
+      <CacheableImage
+        source={{ uri: url }}
+        placeholder={<Text>Loading</Text>}
+        errorPlaceholder={errorPlaceholder}
+        onLoadStart={onLoadStart}
+      />,
+    )
+
+    expect(wrapper.find(Text).prop('children')).toBe('network')
+    expect(errorPlaceholder).toHaveBeenCalledWith(error, expect.any(Function))
+
+    wrapper.find(Text).simulate('press')
+
+    expect(observableSpy).toHaveBeenCalledTimes(2)
+    expect(onLoadStart).toHaveBeenCalledTimes(2)
+    expect(wrapper.prop('source')).toStrictEqual({ uri: 'file:///cache/' + fileName })
+
+    observableSpy.mockRestore()
+    wrapper.unmount()
+  })
+
+  it('When the cached file is revalidated, the source should only change if the file was updated', () => {
+    const CacheableImage = imageCacheHoc(Image)
+    const url = 'https://example.com/revalidated.jpg'
+    const fileName = CacheableImage.fileSystem().getFileNameFromUrl(url)
+    const path = 'file:///cache/' + fileName
+    const subject$ = new ReplaySubject<CacheFileInfo>(1)
+
+    const observableSpy = jest.spyOn(FileSystem.prototype, 'observable').mockReturnValue(subject$)
+
+    const onError = jest.fn()
+    const onLoadEnd = jest.fn()
+
+    const wrapper = shallow(
+      <CacheableImage
+        source={{ uri: url }}
+        placeholder={<Text>Loading</Text>}
+        onError={onError}
+        onLoadEnd={onLoadEnd}
+      />,
+    )
+
+    subject$.next(createCacheFileInfo({ path: null, fileName, status: 'loading' }))
+
+    expect(wrapper.find(Text).prop('children')).toBe('Loading')
+    expect(onLoadEnd).not.toHaveBeenCalled()
+
+    subject$.next(createCacheFileInfo({ path, fileName, status: 'revalidating', origin: 'disk' }))
+    subject$.next(
+      createCacheFileInfo({
+        path,
+        fileName,
+        status: 'error',
+        origin: 'network',
+        error: new CacheError('network', 'The Internet connection appears to be offline.'),
+      }),
+    )
+    subject$.next(
+      createCacheFileInfo({
+        path,
+        fileName,
+        status: 'notModified',
+        origin: 'network',
+        statusCode: 304,
+      }),
+    )
+
+    expect(wrapper.prop('source')).toStrictEqual({ uri: path })
+    expect(onLoadEnd).toHaveBeenCalledTimes(1)
+    expect(onError).not.toHaveBeenCalled()
+
+    subject$.next(
+      createCacheFileInfo({
+        path,
+        fileName,
+        status: 'updated',
+        origin: 'network',
+        statusCode: 200,
+      }),
+    )
+
+    expect(onLoadEnd).toHaveBeenCalledTimes(2)
+
+    observableSpy.mockRestore()
+    wrapper.unmount()
+  })
+
+  it('When the source is invalid, the defaultErrorPlaceholder should be rendered instead of the placeholder', () => {
+    console.warn = jest.fn()
+    const CacheableImage = imageCacheHoc(Image, {
+      defaultPlaceholder: <Text>Loading</Text>,
+      defaultErrorPlaceholder: <Text>Broken</Text>,
+    })
+
+    const wrapper = shallow(<CacheableImage source={{ uri: 'not a url' }} />)
+
+    expect(wrapper.find(Text).prop('children')).toBe('Broken')
+
+    wrapper.setProps({ source: { uri: 'https://example.com/valid.jpg' } })
+
+    expect(wrapper.find(Text).prop('children')).toBe('Loading')
+
+    wrapper.unmount()
+  })
+
+  it('When the priority prop is set, it should be passed to the file system', () => {
+    const CacheableImage = imageCacheHoc(Image)
+
+    const observableSpy = jest.spyOn(FileSystem.prototype, 'observable')
+
+    shallow(<CacheableImage source={{ uri: 'https://example.com/visible.jpg' }} priority={10} />)
+
+    expect(observableSpy).toHaveBeenCalledWith(
+      'https://example.com/visible.jpg',
+      expect.any(String),
+      'immutable',
+      null,
+      expect.objectContaining({ priority: 10 }),
+    )
+
+    observableSpy.mockRestore()
+  })
+
+  it('#cacheFile static method should pass the request options to the file system', async () => {
+    const CacheableImage = imageCacheHoc(Image)
+
+    const getLocalFilePathSpy = jest.spyOn(FileSystem.prototype, 'getLocalFilePathFromUrl')
+    const headers = { Authorization: 'Bearer token' }
+
+    await CacheableImage.cacheFile('https://example.com/prefetch.jpg', false, {
+      headers,
+      priority: -1,
+    })
+
+    expect(getLocalFilePathSpy).toHaveBeenCalledWith('https://example.com/prefetch.jpg', false, {
+      headers,
+      priority: -1,
+    })
+
+    getLocalFilePathSpy.mockRestore()
+  })
+
+  it('#prefetch static method should pass the urls and options to the file system', async () => {
+    const CacheableImage = imageCacheHoc(Image)
+
+    const prefetchSpy = jest.spyOn(FileSystem.prototype, 'prefetch')
+    const urls = ['https://example.com/product-1.jpg', 'https://example.com/product-2.jpg']
+
+    const { results } = CacheableImage.prefetch(urls, { concurrency: 2, permanent: true })
+
+    expect(prefetchSpy).toHaveBeenCalledWith(urls, { concurrency: 2, permanent: true })
+    expect((await results).map(({ path }) => path)).toEqual([
+      expect.stringMatching(/^file:\/\/.*permanent\/.*\.jpg$/),
+      expect.stringMatching(/^file:\/\/.*permanent\/.*\.jpg$/),
+    ])
+
+    prefetchSpy.mockRestore()
+  })
+
   it('componentDidUpdate should not throw any uncaught errors.', (done) => {
     const CacheableImage = imageCacheHoc(Image)
 
@@ -335,6 +921,23 @@ describe('CacheableImage', function () {
     })
   })
 
+  it('When the cache is flushed, the source should be downloaded again', async () => {
+    const CacheableImage = imageCacheHoc(Image, { fileDirName: 'flushed' })
+    const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+    const wrapper = shallow(<CacheableImage source={{ uri: 'https://example.com/flushed.png' }} />)
+    await flush()
+
+    await CacheableImage.flush()
+    await flush()
+
+    expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+    expect(wrapper.state('source')).toMatchObject({ uri: expect.stringContaining('/flushed/') })
+    expect(wrapper.state('error')).toBeUndefined()
+
+    wrapper.unmount()
+  })
+
   it('When render with onLoadFinished prop, event should be called with image size', (done) => {
     const CacheableImage = imageCacheHoc(Image)
 
@@ -359,4 +962,28 @@ describe('CacheableImage', function () {
       done()
     })
   })
+
+  it('When render without onLoadFinished prop, the image size should be recorded in the manifest', async () => {
+    const CacheableImage = imageCacheHoc(Image)
+
+    const getSizeMock = jest
+      .spyOn(Image, 'getSize')
+      .mockImplementation((uri: string, success: (width: number, height: number) => void) => {
+        success(100, 200)
+      })
+
+    const uri = 'https://example.com/size.png'
+    shallow(<CacheableImage source={{ uri }} />)
+
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const fileSystem = CacheableImage.fileSystem()
+    const fileName = fileSystem.getFileNameFromUrl(uri)
+    const entry = (await fileSystem.manifest()).get(fileName)
+
+    expect(getSizeMock).toHaveBeenCalledTimes(1)
+    expect(entry).toMatchObject({ width: 100, height: 200 })
+
+    getSizeMock.mockRestore()
+  })
 })
@@ -0,0 +1,84 @@
+import { DownloadQueue } from '../src/DownloadQueue'
+
+describe('DownloadQueue', () => {
+  const deferred = () => {
+    let resolve: (value: string) => void = () => undefined
+    const promise = new Promise<string>((r) => (resolve = r))
+
+    return { promise, resolve }
+  }
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+  it('When the concurrency limit is reached, downloads should wait for a free slot', async () => {
+    const queue = new DownloadQueue(2)
+    const downloads = [deferred(), deferred(), deferred()]
+    const tasks = downloads.map((download) => jest.fn(() => download.promise))
+    const results: string[] = []
+
+    tasks.forEach((task, i) =>
+      queue.enqueue('file-' + i, task).subscribe((result) => results.push(result)),
+    )
+
+    expect(tasks.map((task) => task.mock.calls.length)).toEqual([1, 1, 0])
+
+    downloads[0].resolve('first')
+    await flush()
+
+    expect(results).toEqual(['first'])
+    expect(tasks[2]).toHaveBeenCalledTimes(1)
+    expect(queue.running).toBe(2)
+  })
+
+  it('When a slot is free, the queued download with the highest priority should start first', async () => {
+    const queue = new DownloadQueue(1)
+    const blocking = deferred()
+    const started: string[] = []
+    const task = (name: string) => () => {
+      started.push(name)
+      return Promise.resolve(name)
+    }
+
+    queue.enqueue('blocking', () => blocking.promise).subscribe()
+    queue.enqueue('low', task('low'), -1).subscribe()
+    queue.enqueue('first', task('first')).subscribe()
+    queue.enqueue('second', task('second')).subscribe()
+    queue.enqueue('high', task('high'), 10).subscribe()
+    queue.prioritize('second', 5)
+
+    blocking.resolve('blocking')
+    await flush()
+
+    expect(started).toEqual(['high', 'second', 'first', 'low'])
+  })
+
+  it('When a queued download is unsubscribed, it should be removed from the queue', async () => {
+    const queue = new DownloadQueue(1)
+    const blocking = deferred()
+    const task = jest.fn(() => Promise.resolve('queued'))
+
+    queue.enqueue('blocking', () => blocking.promise).subscribe()
+    queue.enqueue('queued', task).subscribe().unsubscribe()
+
+    expect(queue.queue).toHaveLength(0)
+
+    blocking.resolve('blocking')
+    await flush()
+
+    expect(task).not.toHaveBeenCalled()
+  })
+
+  it('When a download fails, the error should be emitted and the slot released', async () => {
+    const queue = new DownloadQueue(1)
+    const error = jest.fn()
+    const task = jest.fn(() => Promise.resolve('next'))
+
+    queue.enqueue('failed', () => Promise.reject(new Error('Network error'))).subscribe({ error })
+    queue.enqueue('next', task).subscribe()
+    await flush()
+
+    expect(error).toHaveBeenCalledWith(new Error('Network error'))
+    expect(task).toHaveBeenCalled()
+    expect(queue.running).toBe(0)
+  })
+})
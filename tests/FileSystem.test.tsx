@@ -1,18 +1,75 @@
 import 'should'
 import pathLib from 'path'
-import { mockData } from './mockData'
+import { mockData, mockEntry } from './mockData'
 import RNFS from 'react-native-fs'
 import uuid from 'react-native-uuid'
-import FileSystemFactory, { FileSystem } from '../src/FileSystem'
+import FileSystemFactory, {
+  CacheEvent,
+  CacheFileInfo,
+  defaultRetryPolicy,
+  DownloadProgress,
+  EvictionPolicy,
+  FileSystem,
+  getRetryDelay,
+  PrefetchProgress,
+} from '../src/FileSystem'
+import { CacheEntry } from '../src/CacheManifest'
+import { stripAllQueryParams } from '../src/CacheKey'
+import { DownloadQueue } from '../src/DownloadQueue'
+import { CacheError } from '../src/CacheError'
 import { mocked } from 'ts-jest/utils'
+import { skipWhile, take } from 'rxjs/operators'
+import { Observable } from 'rxjs'
 
 describe('FileSystem', function () {
   const MockedRNFS = mocked(RNFS, true)
 
+  const statImplementation = MockedRNFS.stat.getMockImplementation() as typeof RNFS.stat
+  const tempDir = mockData.basePath + '/react-native-image-cache-hoc/tmp'
+
   beforeEach(function () {
     jest.clearAllMocks()
+    MockedRNFS.stat.mockImplementation(statImplementation)
+    // Temporary download files only exist while a download is in progress.
+    MockedRNFS.exists.mockImplementation(async (filepath) => !filepath.includes(tempDir))
+    FileSystem.manifests = {}
   })
 
+  // Mocks stat for a single path, unlike mockResolvedValueOnce this is not affected by other requests in flight.
+  const mockStat = (path: string, mtime: number, size: string) =>
+    MockedRNFS.stat.mockImplementation((filepath) =>
+      filepath === path
+        ? Promise.resolve({
+            name: '',
+            path,
+            size,
+            mode: 777,
+            mtime,
+            ctime: 0,
+            originalFilepath: '',
+            isFile: () => true,
+            isDirectory: () => false,
+          })
+        : Promise.reject(new Error('File not found.')),
+    )
+
+  // Matches the error of a download that failed with the given response status.
+  const httpStatusError = (statusCode: number) =>
+    expect.objectContaining({ type: 'httpStatus', statusCode })
+
+  // Matches the info emitted while a file that is not cached is downloaded.
+  const loading = (fileName: string) =>
+    expect.objectContaining({ path: null, fileName, status: 'loading' })
+
+  // Collects the values emitted by an observable until all pending work has completed.
+  const collect = async <T,>(observable: Observable<T>) => {
+    const values: T[] = []
+    const subscription = observable.subscribe((value) => values.push(value))
+    await new Promise((resolve) => setImmediate(resolve))
+    subscription.unsubscribe()
+    return values
+  }
+
   // Test static class properties and methods
   it('FileSystem class cache locking logic should work as expected.', () => {
     // Cache lock should default to empty
@@ -150,6 +207,32 @@ describe('FileSystem', function () {
       unknownFilename.should.equal('831eb245a3d9032cdce450f8760d2b8ddb442a3d.bin')
     })
 
+    it('#getFileNameFromUrl should derive the filename from the cache key.', () => {
+      const fileSystem = FileSystemFactory(null, null, { cacheKey: stripAllQueryParams })
+
+      const filename = fileSystem.getFileNameFromUrl(
+        'https://cdn2.hubspot.net/hub/42284/file-14233687-jpg/images/test_in_red.jpg?Signature=one',
+      )
+
+      filename.should.equal('6adf4569ecc3bf8c378bb4d47b1995cd85c5a13c.jpg')
+      fileSystem
+        .getFileNameFromUrl(
+          'https://cdn2.hubspot.net/hub/42284/file-14233687-jpg/images/test_in_red.jpg?Signature=two',
+        )
+        .should.equal(filename)
+    })
+
+    it('#getFileNameFromUrl should prefer a cache key override to the cache key function.', () => {
+      const fileSystem = FileSystemFactory(null, null, { cacheKey: stripAllQueryParams })
+
+      fileSystem
+        .getFileNameFromUrl(
+          'https://cdn2.hubspot.net/hub/42284/file-14233687-jpg/images/test_in_red.png?Signature=one',
+          'https://cdn2.hubspot.net/hub/42284/file-14233687-jpg/images/test_in_red.jpg',
+        )
+        .should.equal('6adf4569ecc3bf8c378bb4d47b1995cd85c5a13c.png')
+    })
+
     it('#getLocalFilePathFromUrl should return local filepath if it exists on local fs', async () => {
       const fileSystem = FileSystemFactory()
 
@@ -225,22 +308,23 @@ describe('FileSystem', function () {
 
       FileSystem.lockCacheFile(fileName, requestId)
 
-      const onNext = jest.fn()
+      const emitted: CacheFileInfo[] = []
 
       // fileSystem.exists() is mocked to always return true, so error should always be thrown unless clobber is set to true.
-      fileSystem.observable(url, requestId).subscribe({
-        next: (element) => {
-          onNext()
-          expect(element).toStrictEqual({
-            path:
-              'file:///base/file/path/react-native-image-cache-hoc/cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
-            fileName: 'cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
-          })
-        },
-      })
+      fileSystem.observable(url, requestId).subscribe((element) => emitted.push(element))
 
       setImmediate(() => {
-        expect(onNext).toBeCalledTimes(1)
+        expect(emitted.map(({ status }) => status)).toEqual(['cached'])
+        expect(emitted[emitted.length - 1]).toStrictEqual({
+          path:
+            'file:///base/file/path/react-native-image-cache-hoc/cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
+          fileName: 'cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
+          status: 'cached',
+          origin: 'disk',
+          statusCode: null,
+          requestedAt: expect.any(Number),
+          timestamp: expect.any(Number),
+        })
         expect(MockedRNFS.downloadFile).not.toHaveBeenCalled()
         FileSystem.unlockCacheFile(fileName, requestId)
         done()
@@ -257,22 +341,23 @@ describe('FileSystem', function () {
 
       FileSystem.lockCacheFile(fileName, requestId)
 
-      const onNext = jest.fn()
+      const emitted: CacheFileInfo[] = []
 
       // fileSystem.exists() is mocked to always return true, so error should always be thrown unless clobber is set to true.
-      fileSystem.observable(url, requestId, 'mutable').subscribe({
-        next: (element) => {
-          onNext()
-          expect(element).toStrictEqual({
-            path:
-              'file:///base/file/path/react-native-image-cache-hoc/cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
-            fileName: 'cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
-          })
-        },
-      })
+      fileSystem.observable(url, requestId, 'mutable').subscribe((element) => emitted.push(element))
 
       setImmediate(() => {
-        expect(onNext).toBeCalledTimes(1)
+        expect(emitted.map(({ status }) => status)).toEqual(['loading', 'cached'])
+        expect(emitted[emitted.length - 1]).toStrictEqual({
+          path:
+            'file:///base/file/path/react-native-image-cache-hoc/cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
+          fileName: 'cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
+          status: 'cached',
+          origin: 'network',
+          statusCode: 200,
+          requestedAt: expect.any(Number),
+          timestamp: expect.any(Number),
+        })
         expect(MockedRNFS.downloadFile).toHaveBeenCalled()
         FileSystem.unlockCacheFile(fileName, requestId)
         done()
@@ -315,22 +400,23 @@ describe('FileSystem', function () {
 
       FileSystem.lockCacheFile(fileName, requestId)
 
-      const onNext = jest.fn()
+      const emitted: CacheFileInfo[] = []
 
       // fileSystem.exists() is mocked to always return true, so error should always be thrown unless clobber is set to true.
-      fileSystem.observable(url, requestId, 'mutable').subscribe({
-        next: (element) => {
-          onNext()
-          expect(element).toStrictEqual({
-            path:
-              'file:///base/file/path/react-native-image-cache-hoc/cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
-            fileName: 'cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
-          })
-        },
-      })
+      fileSystem.observable(url, requestId, 'mutable').subscribe((element) => emitted.push(element))
 
       setImmediate(() => {
-        expect(onNext).toBeCalledTimes(2)
+        expect(emitted.map(({ status }) => status)).toEqual(['revalidating', 'updated'])
+        expect(emitted[emitted.length - 1]).toStrictEqual({
+          path:
+            'file:///base/file/path/react-native-image-cache-hoc/cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
+          fileName: 'cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
+          status: 'updated',
+          origin: 'network',
+          statusCode: 200,
+          requestedAt: expect.any(Number),
+          timestamp: expect.any(Number),
+        })
         expect(MockedRNFS.downloadFile).toHaveBeenCalled()
         FileSystem.unlockCacheFile(fileName, requestId)
         done()
@@ -376,179 +462,2431 @@ describe('FileSystem', function () {
 
       FileSystem.lockCacheFile(fileName, requestId)
 
-      const onNext = jest.fn()
+      const emitted: CacheFileInfo[] = []
 
       // fileSystem.exists() is mocked to always return true, so error should always be thrown unless clobber is set to true.
-      fileSystem.observable(url, requestId, 'mutable').subscribe({
-        next: (element) => {
-          onNext()
-          expect(element).toStrictEqual({
-            path:
-              'file:///base/file/path/react-native-image-cache-hoc/cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
-            fileName: 'cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
-          })
-        },
-      })
+      fileSystem.observable(url, requestId, 'mutable').subscribe((element) => emitted.push(element))
 
       setImmediate(() => {
-        expect(onNext).toBeCalledTimes(1)
+        expect(emitted.map(({ status }) => status)).toEqual(['revalidating', 'notModified'])
+        expect(emitted[emitted.length - 1]).toStrictEqual({
+          path:
+            'file:///base/file/path/react-native-image-cache-hoc/cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
+          fileName: 'cd7d2199cd8e088cdfd9c99fc6359666adc36289.png',
+          status: 'notModified',
+          origin: 'network',
+          statusCode: 304,
+          requestedAt: expect.any(Number),
+          timestamp: expect.any(Number),
+        })
         expect(MockedRNFS.downloadFile).toHaveBeenCalled()
         FileSystem.unlockCacheFile(fileName, requestId)
         done()
       })
     })
 
-    it('When a invalid cache strategy is provided, an error should be thrown', () => {
-      const fileSystem = FileSystemFactory()
+    describe('http cache strategy', () => {
+      const url = 'https://example.com/http-strategy.png'
+
+      it('When the cached response is fresh, the cached file should be used without making a request', async () => {
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(mockEntry({ url, fileName, etag: '"abc"', expiresAt: Date.now() + 60000 }))
+
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId, 'http'))
+
+        expect(values).toStrictEqual([
+          {
+            path: 'file://' + fileSystem.baseFilePath + fileName,
+            fileName,
+            status: 'cached',
+            origin: 'disk',
+            statusCode: null,
+            requestedAt: expect.any(Number),
+            timestamp: expect.any(Number),
+          },
+        ])
+        expect(MockedRNFS.downloadFile).not.toHaveBeenCalledWith(
+          expect.objectContaining({ fromUrl: url }),
+        )
 
-      const url =
-        'https://img.wennermedia.com/5333a62d-07db-432a-92e2-198cafa38a14-326adb1a-d8ed-4a5d-b37e-5c88883e1989.png'
-      const fileName = fileSystem.getFileNameFromUrl(url)
-      const requestId = uuid.v4()
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
 
-      expect(() => fileSystem.observable(url, requestId, 'invalid' as any, fileName)).toThrow(
-        'Invalid CacheStrategy invalid is unhandled',
-      )
-    })
+      it('When the cached response is stale, it should be revalidated with its validators', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce((options) => {
+          options.begin?.({
+            jobId: 1,
+            statusCode: 304,
+            contentLength: 0,
+            headers: { 'Cache-Control': 'public, max-age=60' },
+          })
 
-    it('#observable should throw if a lock does not exist', () => {
-      const fileSystem = FileSystemFactory()
+          return {
+            jobId: 1,
+            promise: Promise.resolve({ jobId: 1, bytesWritten: 0, statusCode: 304 }),
+          }
+        })
 
-      expect(() => fileSystem.observable('https://i.redd.it/rc29s4bz61uz.png', uuid.v4())).toThrow(
-        'A lock must be aquired before requesting an observable',
-      )
-    })
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(
+          mockEntry({
+            url,
+            fileName,
+            etag: '"abc"',
+            lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT',
+            expiresAt: Date.now() - 1,
+          }),
+        )
 
-    it('#observable should reuse existing observables', () => {
-      const fileSystem = FileSystemFactory()
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
 
-      const url = 'https://i.redd.it/rc29s4bz61uz.png'
-      const fileName = fileSystem.getFileNameFromUrl(url)
-      const componentIdA = uuid.v4()
-      const componentIdB = uuid.v4()
+        const values = await collect(fileSystem.observable(url, requestId, 'http'))
 
-      FileSystem.lockCacheFile(fileName, componentIdA)
-      FileSystem.lockCacheFile(fileName, componentIdB)
+        expect(values.map(({ status }) => status)).toEqual(['revalidating', 'notModified'])
+        expect(values[1]).toMatchObject({
+          path: 'file://' + fileSystem.baseFilePath + fileName,
+          origin: 'network',
+          statusCode: 304,
+        })
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledWith(
+          expect.objectContaining({
+            fromUrl: url,
+            headers: {
+              'if-none-match': '"abc"',
+              'if-modified-since': 'Wed, 21 Oct 2015 07:28:00 GMT',
+            },
+          }),
+        )
+        expect(manifest.get(fileName)?.expiresAt).toBeGreaterThan(Date.now() + 59000)
+        expect(manifest.get(fileName)?.cacheControl).toBe('public, max-age=60')
 
-      const a = fileSystem.observable(url, componentIdA)
-      const b = fileSystem.observable(url, componentIdB)
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
 
-      expect(a).toBe(b)
+      it('When a 304 response has no cache headers, the stored directives should renew the freshness lifetime', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce((options) => {
+          options.begin?.({ jobId: 1, statusCode: 304, contentLength: 0, headers: {} })
 
-      FileSystem.unlockCacheFile(fileName, componentIdA)
-      FileSystem.unlockCacheFile(fileName, componentIdB)
-    })
+          return {
+            jobId: 1,
+            promise: Promise.resolve({ jobId: 1, bytesWritten: 0, statusCode: 304 }),
+          }
+        })
 
-    it('#observable should handle failure responses on download', (done) => {
-      const fileSystem = FileSystemFactory()
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(
+          mockEntry({
+            url,
+            fileName,
+            etag: '"abc"',
+            cacheControl: 'public, max-age=3600',
+            expiresAt: Date.now() - 1,
+          }),
+        )
 
-      MockedRNFS.downloadFile.mockImplementationOnce(() => ({
-        jobId: -1,
-        promise: Promise.resolve({ jobId: -1, bytesWritten: 0, statusCode: 404 }),
-      }))
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
 
-      fileSystem
-        .fetchFile(
-          'https://img.wennermedia.com/5333a62d-07db-432a-92e2-198cafa38a14-326adb1a-d8ed-4a5d-b37e-5c88883e1989.png',
+        await collect(fileSystem.observable(url, requestId, 'http'))
+
+        expect(manifest.get(fileName)).toMatchObject({
+          etag: '"abc"',
+          cacheControl: 'public, max-age=3600',
+          expires: null,
+        })
+        expect(manifest.get(fileName)?.expiresAt).toBeGreaterThan(Date.now() + 3599000)
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a response has an Age header, it should be subtracted from the freshness lifetime', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce((options) => {
+          options.begin?.({
+            jobId: 1,
+            statusCode: 200,
+            contentLength: 100,
+            headers: { 'Cache-Control': 'public, max-age=3600', Age: '3000' },
+          })
+
+          return {
+            jobId: 1,
+            promise: Promise.resolve({ jobId: 1, bytesWritten: 100, statusCode: 200 }),
+          }
+        })
+
+        const edgeUrl = 'https://cdn.example.com/aged.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(edgeUrl)
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const requestedAt = Date.now()
+        await collect(fileSystem.observable(edgeUrl, requestId, 'http'))
+
+        const expiresAt = (await fileSystem.manifest()).get(fileName)?.expiresAt
+        expect(expiresAt).toBeGreaterThanOrEqual(requestedAt + 600000)
+        expect(expiresAt).toBeLessThanOrEqual(Date.now() + 600000)
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the cached response is no-store, it should be downloaded again without validators', async () => {
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(
+          mockEntry({ url, fileName, etag: '"abc"', cacheControl: 'no-store', expiresAt: 0 }),
         )
-        .subscribe(({ path }) => {
-          expect(path).toBeNull()
 
-          expect(MockedRNFS.unlink).toHaveBeenCalled()
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
 
-          done()
+        const values = await collect(fileSystem.observable(url, requestId, 'http'))
+
+        expect(values).toHaveLength(2)
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledWith(
+          expect.objectContaining({ fromUrl: url, headers: {} }),
+        )
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a file is downloaded, its freshness lifetime should be recorded', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce((options) => {
+          options.begin?.({
+            jobId: 1,
+            statusCode: 200,
+            contentLength: 0,
+            headers: { Expires: 'Wed, 21 Oct 2037 07:28:00 GMT' },
+          })
+
+          return {
+            jobId: 1,
+            promise: Promise.resolve({ jobId: 1, bytesWritten: 0, statusCode: 200 }),
+          }
+        })
+
+        const fileSystem = FileSystemFactory()
+        const [{ fileName }] = await collect(fileSystem.fetchFile(url))
+        const manifest = await fileSystem.manifest()
+
+        expect(manifest.get(fileName)).toMatchObject({
+          expires: 'Wed, 21 Oct 2037 07:28:00 GMT',
+          expiresAt: Date.parse('Wed, 21 Oct 2037 07:28:00 GMT'),
         })
+      })
     })
-  })
 
-  describe('fetchFile', () => {
-    it('#fetchFile should validate path.', () => {
-      const fileSystem = FileSystemFactory()
-      const badFileName = '../../../../bad-filename.jpg'
-      expect(() => fileSystem.fetchFile('https://google.com/arbitrary.jpg', badFileName)).toThrow(
-        (() => {
-          const resolvedPath = pathLib.resolve(
-            mockData.basePath + '/react-native-image-cache-hoc/' + badFileName,
-          )
-          return resolvedPath + ' is not a valid file path.'
-        })(),
-      )
+    describe('Time-to-live', () => {
+      const url = 'https://example.com/time-to-live.png'
+
+      it('When the cached file has not expired, it should be used without making a request', async () => {
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(mockEntry({ url, fileName, validatedAt: Date.now() - 1000 }))
+
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(
+          fileSystem.observable(url, requestId, 'immutable', null, { maxAge: 60 }),
+        )
+
+        expect(values).toHaveLength(1)
+        expect(MockedRNFS.downloadFile).not.toHaveBeenCalledWith(
+          expect.objectContaining({ fromUrl: url }),
+        )
+        expect(manifest.get(fileName)?.maxAge).toBe(60)
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the cached file has expired, it should be served and downloaded again', async () => {
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(mockEntry({ url, fileName, validatedAt: Date.now() - 61000 }))
+
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(
+          fileSystem.observable(url, requestId, 'immutable', null, { maxAge: 60 }),
+        )
+
+        expect(values).toHaveLength(2)
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledWith(
+          expect.objectContaining({ fromUrl: url }),
+        )
+        expect(manifest.get(fileName)?.validatedAt).toBeGreaterThan(Date.now() - 1000)
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the cached file has expired and stale files should not be served, it should only be emitted once downloaded', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(() => ({
+          jobId: 1,
+          promise: Promise.resolve({ jobId: 1, bytesWritten: 0, statusCode: 304 }),
+        }))
+
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(mockEntry({ url, fileName, validatedAt: Date.now() - 61000 }))
+
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const onNext = jest.fn()
+        fileSystem
+          .observable(url, requestId, 'immutable', null, {
+            maxAge: 60,
+            staleWhileRevalidate: false,
+          })
+          .subscribe(onNext)
+
+        expect(onNext).not.toHaveBeenCalled()
+        await new Promise((resolve) => setImmediate(resolve))
+
+        expect(MockedRNFS.downloadFile).toHaveBeenCalled()
+        expect(onNext).toHaveBeenCalledTimes(1)
+        expect(onNext).toHaveBeenCalledWith(
+          expect.objectContaining({
+            path: 'file://' + fileSystem.baseFilePath + fileName,
+            fileName,
+            status: 'notModified',
+          }),
+        )
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
     })
 
-    it('#fetchFile prune logic should be called on cache writes.', (done) => {
-      const fileSystem = FileSystemFactory()
-      // Mock fileSystem.pruneCache() to determine if it is called correctly.
-      fileSystem.pruneCache = jest.fn(() => Promise.resolve())
-      // fileSystem.exists() is mocked to always return true, so error should always be thrown unless clobber is set to true.
-      fileSystem
-        .fetchFile(
-          'https://img.wennermedia.com/5333a62d-07db-432a-92e2-198cafa38a14-326adb1a-d8ed-4a5d-b37e-5c88883e1989.png',
+    describe('Request headers', () => {
+      const headers = { Authorization: 'Bearer token' }
+
+      it('When a file is downloaded, the request headers should be sent', async () => {
+        const url = 'https://example.com/private.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        await collect(
+          fileSystem.observable(url, requestId, 'immutable', null, {
+            headers,
+          }),
         )
-        .subscribe({
-          complete: () => {
-            expect(fileSystem.pruneCache).toHaveBeenCalled()
-            done()
-          },
+
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledWith(
+          expect.objectContaining({ fromUrl: url, headers }),
+        )
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a file is revalidated, the request headers should be sent with its validators', async () => {
+        const url = 'https://example.com/private-stale.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(mockEntry({ url, fileName, etag: '"abc"', expiresAt: Date.now() - 1 }))
+
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        await collect(fileSystem.observable(url, requestId, 'http', null, { headers }))
+
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledWith(
+          expect.objectContaining({
+            fromUrl: url,
+            headers: { Authorization: 'Bearer token', 'if-none-match': '"abc"' },
+          }),
+        )
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When an accept option is set, the Accept header should be sent unless the request sets one', async () => {
+        const fileSystem = FileSystemFactory(null, null, {
+          accept: 'image/avif,image/webp,image/*',
         })
-    })
-  })
 
-  describe('Cache Pruning', () => {
-    it('When the cache directory exists, method should complete', async () => {
-      const fileSystem = FileSystemFactory()
+        await collect(fileSystem.fetchFile('https://example.com/accept.png', null, headers))
+        await collect(
+          fileSystem.fetchFile('https://example.com/accept-png.png', null, { accept: 'image/png' }),
+        )
 
-      await fileSystem.pruneCache()
+        expect(MockedRNFS.downloadFile).toHaveBeenNthCalledWith(
+          1,
+          expect.objectContaining({
+            headers: { Authorization: 'Bearer token', Accept: 'image/avif,image/webp,image/*' },
+          }),
+        )
+        expect(MockedRNFS.downloadFile).toHaveBeenNthCalledWith(
+          2,
+          expect.objectContaining({ headers: { accept: 'image/png' } }),
+        )
+      })
     })
 
-    it('When the cache directory does not exist, method should exit early', async () => {
-      MockedRNFS.exists.mockResolvedValueOnce(false)
+    describe('Request hooks', () => {
+      const unauthorized = (options: RNFS.DownloadFileOptions) => {
+        options.begin?.({ jobId: 1, statusCode: 401, contentLength: 0, headers: {} })
+
+        return {
+          jobId: 1,
+          promise: Promise.resolve({ jobId: 1, bytesWritten: 0, statusCode: 401 }),
+        }
+      }
+
+      it('When onBeforeRequest is provided, its headers should be sent with the download', async () => {
+        const url = 'https://example.com/intercepted.png'
+        const onBeforeRequest = jest.fn(
+          async (_url: string, headers: { [name: string]: string }) => ({
+            ...headers,
+            Authorization: 'Bearer fresh',
+          }),
+        )
+        const fileSystem = FileSystemFactory(null, null, { onBeforeRequest })
+        const fileName = fileSystem.getFileNameFromUrl(url)
 
-      const fileSystem = FileSystemFactory()
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
 
-      await fileSystem.pruneCache()
+        await collect(
+          fileSystem.observable(url, requestId, 'immutable', null, {
+            headers: { 'X-Client': 'app' },
+          }),
+        )
 
-      expect(MockedRNFS.readDir).not.toHaveBeenCalled()
-    })
-  })
+        expect(onBeforeRequest).toHaveBeenCalledWith(url, { 'X-Client': 'app' })
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledWith(
+          expect.objectContaining({
+            fromUrl: url,
+            headers: { 'X-Client': 'app', Authorization: 'Bearer fresh' },
+          }),
+        )
 
-  describe('unlink', () => {
-    it('#unlink should only accept valid paths.', () => {
-      const fileSystem = FileSystemFactory()
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
 
-      const badFileName = '/../../../../../bad-file-name.jpg'
+      it('When a download is unauthorized and credentials are refreshed, it should be retried once', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(unauthorized)
 
-      return fileSystem
-        .unlink(badFileName)
-        .then(() => {
-          throw new Error('Bad file path was accepted.')
-        })
-        .catch((error) => {
-          const resolvedPath = pathLib.resolve(mockData.basePath + badFileName)
+        const url = 'https://example.com/unauthorized.png'
+        const onAuthFailure = jest.fn(async () => true)
+        const fileSystem = FileSystemFactory(null, null, { onAuthFailure })
+        const fileName = fileSystem.getFileNameFromUrl(url)
 
-          error.should.deepEqual(new Error(resolvedPath + ' is not a valid file path.'))
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId))
+
+        expect(onAuthFailure).toHaveBeenCalledWith(url, 401)
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: 'file://' + fileSystem.baseFilePath + fileName,
+            fileName,
+            status: 'cached',
+            origin: 'network',
+            statusCode: 200,
+          }),
+        ])
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a retried download is still unauthorized, it should not be retried again', async () => {
+        MockedRNFS.downloadFile
+          .mockImplementationOnce(unauthorized)
+          .mockImplementationOnce(unauthorized)
+
+        const url = 'https://example.com/forbidden.png'
+        const onAuthFailure = jest.fn(async () => true)
+        const fileSystem = FileSystemFactory(null, null, { onAuthFailure })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId))
+
+        expect(onAuthFailure).toHaveBeenCalledTimes(1)
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: null,
+            fileName,
+            status: 'error',
+            statusCode: 401,
+            error: httpStatusError(401),
+          }),
+        ])
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When onAuthFailure rejects, the unauthorized response should be reported without a retry', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(unauthorized)
+
+        const url = 'https://example.com/refresh-failed.png'
+        const onAuthFailure = jest.fn(async () => {
+          throw new Error('Refresh failed')
         })
-    })
+        const fileSystem = FileSystemFactory(null, null, { onAuthFailure })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId))
+
+        expect(onAuthFailure).toHaveBeenCalledTimes(1)
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(1)
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: null,
+            fileName,
+            status: 'error',
+            statusCode: 401,
+            error: httpStatusError(401),
+          }),
+        ])
 
-    it('#unlink should work as expected for valid paths.', () => {
-      // Mock unlink to be true.
-      MockedRNFS.unlink.mockResolvedValueOnce()
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
 
-      const fileSystem = FileSystemFactory()
+      it('When credentials are not refreshed, the download should not be retried', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(unauthorized)
 
-      const validPath = '/valid.jpg'
+        const url = 'https://example.com/expired-token.png'
+        const fileSystem = FileSystemFactory(null, null, { onAuthFailure: async () => false })
+        const fileName = fileSystem.getFileNameFromUrl(url)
 
-      return expect(fileSystem.unlink(validPath)).resolves.toEqual(true)
-    })
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
 
-    it('#unlink should work as expected for invalid paths.', () => {
-      // Mock unlink to be false.
-      MockedRNFS.exists.mockResolvedValueOnce(false)
+        const values = await collect(fileSystem.observable(url, requestId))
 
-      const fileSystem = FileSystemFactory()
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(1)
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: null,
+            fileName,
+            status: 'error',
+            statusCode: 401,
+            error: httpStatusError(401),
+          }),
+        ])
 
-      const invalidPath = '/invalid.jpg'
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+    })
 
-      return expect(fileSystem.unlink(invalidPath)).resolves.toEqual(true)
+    describe('Download progress', () => {
+      it('When a file is downloaded, its progress should be emitted to every subscriber of the file', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce((options) => {
+          options.begin?.({ jobId: 1, statusCode: 200, contentLength: 100, headers: {} })
+          options.progress?.({ jobId: 1, bytesWritten: 50, contentLength: 100 })
+          options.progress?.({ jobId: 1, bytesWritten: 100, contentLength: 100 })
+
+          return {
+            jobId: 1,
+            promise: Promise.resolve({ jobId: 1, bytesWritten: 100, statusCode: 200 }),
+          }
+        })
+
+        const url = 'https://example.com/hero.jpg'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const first: DownloadProgress[] = []
+        const second: DownloadProgress[] = []
+        const other: DownloadProgress[] = []
+        const subscription = fileSystem
+          .progressObservable(fileName)
+          .subscribe((progress) => first.push(progress))
+        subscription.add(
+          fileSystem.progressObservable(fileName).subscribe((progress) => second.push(progress)),
+        )
+        subscription.add(
+          fileSystem.progressObservable('other.jpg').subscribe((progress) => other.push(progress)),
+        )
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+        await collect(fileSystem.observable(url, requestId))
+        FileSystem.unlockCacheFile(fileName, requestId)
+        subscription.unsubscribe()
+
+        expect(first).toEqual([
+          { fileName, bytesWritten: 0, contentLength: 100 },
+          { fileName, bytesWritten: 50, contentLength: 100 },
+          { fileName, bytesWritten: 100, contentLength: 100 },
+        ])
+        expect(second).toEqual(first)
+        expect(other).toEqual([])
+      })
+    })
+
+    describe('Download queue', () => {
+      const downloadQueue = FileSystem.downloadQueue
+
+      afterEach(() => {
+        FileSystem.downloadQueue = downloadQueue
+      })
+
+      it('When the last lock of a queued download is released, the download should be dropped', async () => {
+        FileSystem.downloadQueue = new DownloadQueue(0)
+
+        const url = 'https://example.com/queued.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId, 'immutable', null, {}))
+
+        expect(FileSystem.downloadQueue.queue).toHaveLength(1)
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+
+        expect(values).toEqual([loading(fileName)])
+        expect(FileSystem.downloadQueue.queue).toHaveLength(0)
+        expect(FileSystem.cacheObservables[fileName]).toBeUndefined()
+        expect(MockedRNFS.downloadFile).not.toHaveBeenCalled()
+      })
+
+      it('When a file is requested again with a higher priority, its queued download should be prioritized', async () => {
+        FileSystem.downloadQueue = new DownloadQueue(0)
+
+        const url = 'https://example.com/prioritized.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const first = uuid.v4()
+        const second = uuid.v4()
+        FileSystem.lockCacheFile(fileName, first)
+        FileSystem.lockCacheFile(fileName, second)
+
+        await collect(fileSystem.observable(url, first, 'immutable', null, { priority: -1 }))
+        fileSystem.observable(url, second, 'immutable', null, { priority: 5 })
+
+        expect(FileSystem.downloadQueue.queue[0].priority).toBe(5)
+
+        FileSystem.unlockCacheFile(fileName, first)
+        FileSystem.unlockCacheFile(fileName, second)
+      })
+    })
+
+    describe('Download cancellation', () => {
+      // A download that runs until it is stopped.
+      const inFlight = (jobId: number, statusCode?: number) => (
+        options: RNFS.DownloadFileOptions,
+      ) => {
+        if (statusCode) {
+          options.begin?.({ jobId, statusCode, contentLength: 100, headers: {} })
+        }
+
+        return {
+          jobId,
+          promise: new Promise<RNFS.DownloadResult>((_resolve, reject) => {
+            MockedRNFS.stopDownload.mockImplementationOnce(() =>
+              reject(new Error('Download has been aborted')),
+            )
+          }),
+        }
+      }
+
+      const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+      it('When the last lock is released during a download, the download should be stopped and the partial temporary file removed', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(inFlight(7, 200))
+
+        const url = 'https://example.com/cancelled.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const first = uuid.v4()
+        const second = uuid.v4()
+        FileSystem.lockCacheFile(fileName, first)
+        FileSystem.lockCacheFile(fileName, second)
+
+        await collect(fileSystem.observable(url, first))
+        expect(FileSystem.downloadJobs[fileName]).toBeDefined()
+
+        const tempPath = FileSystem.downloadJobs[fileName].path
+        MockedRNFS.exists.mockResolvedValue(true)
+
+        // Another component is still waiting for the file
+        FileSystem.unlockCacheFile(fileName, first)
+        expect(MockedRNFS.stopDownload).not.toHaveBeenCalled()
+
+        FileSystem.unlockCacheFile(fileName, second)
+        await flush()
+
+        expect(MockedRNFS.stopDownload).toHaveBeenCalledWith(7)
+        expect(MockedRNFS.unlink).toHaveBeenCalledWith(tempPath)
+        expect(MockedRNFS.unlink).not.toHaveBeenCalledWith(fileSystem.baseFilePath + fileName)
+        expect(FileSystem.downloadJobs[fileName]).toBeUndefined()
+        expect(FileSystem.cacheObservables[fileName]).toBeUndefined()
+        expect(FileSystem.cacheSubscriptions[fileName]).toBeUndefined()
+
+        // A later request should download the file again
+        const third = uuid.v4()
+        FileSystem.lockCacheFile(fileName, third)
+
+        const values = await collect(fileSystem.observable(url, third))
+
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: 'file://' + fileSystem.baseFilePath + fileName,
+            fileName,
+            status: 'cached',
+            origin: 'network',
+            statusCode: 200,
+          }),
+        ])
+
+        FileSystem.unlockCacheFile(fileName, third)
+      })
+
+      it('When the last lock is released before a revalidation responds, the cached file should be kept', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(inFlight(8))
+
+        const url = 'https://example.com/revalidating.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const manifest = await fileSystem.manifest()
+        manifest.set(mockEntry({ url, fileName, etag: '"abc"', expiresAt: Date.now() - 1 }))
+
+        mockStat(fileSystem.baseFilePath + fileName, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId, 'http'))
+        FileSystem.unlockCacheFile(fileName, requestId)
+        await flush()
+
+        expect(values).toHaveLength(1)
+        expect(MockedRNFS.stopDownload).toHaveBeenCalledWith(8)
+        expect(MockedRNFS.unlink).not.toHaveBeenCalledWith(fileSystem.baseFilePath + fileName)
+        expect(manifest.get(fileName)).toBeDefined()
+      })
+
+      it('When the last lock is released while onBeforeRequest is pending, the download should not be started', async () => {
+        let resolveHeaders: (headers: { [name: string]: string }) => void = () => undefined
+        const onBeforeRequest = jest.fn(
+          () => new Promise<{ [name: string]: string }>((resolve) => (resolveHeaders = resolve)),
+        )
+
+        const url = 'https://example.com/pending-headers.png'
+        const fileSystem = FileSystemFactory(null, null, { onBeforeRequest })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        await collect(fileSystem.observable(url, requestId))
+        expect(onBeforeRequest).toHaveBeenCalled()
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+        resolveHeaders({})
+        await flush()
+
+        expect(MockedRNFS.downloadFile).not.toHaveBeenCalled()
+        expect(MockedRNFS.stopDownload).not.toHaveBeenCalled()
+        expect(FileSystem.downloadJobs[fileName]).toBeUndefined()
+      })
+    })
+
+    describe('Temporary files', () => {
+      it('When a download succeeds, it should be moved from its temporary file into the cache', async () => {
+        const url = 'https://example.com/atomic.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const path = fileSystem.baseFilePath + fileName
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId))
+        const { toFile } = MockedRNFS.downloadFile.mock.calls[0][0]
+
+        expect(toFile.startsWith(tempDir + '/')).toBe(true)
+        expect(toFile.endsWith(fileName)).toBe(true)
+        expect(MockedRNFS.mkdir).toHaveBeenCalledWith(tempDir)
+        expect(MockedRNFS.moveFile).toHaveBeenCalledWith(toFile, path)
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({ path: 'file://' + path, fileName, status: 'cached' }),
+        ])
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a download fails, only its temporary file should be removed', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(() => ({
+          jobId: 1,
+          promise: Promise.resolve({ jobId: 1, bytesWritten: 0, statusCode: 404 }),
+        }))
+        MockedRNFS.exists.mockResolvedValue(true)
+
+        const url = 'https://example.com/atomic-failure.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        await collect(fileSystem.observable(url, requestId))
+        const { toFile } = MockedRNFS.downloadFile.mock.calls[0][0]
+
+        expect(MockedRNFS.moveFile).not.toHaveBeenCalled()
+        expect(MockedRNFS.unlink).toHaveBeenCalledWith(toFile)
+        expect(MockedRNFS.unlink).not.toHaveBeenCalledWith(fileSystem.baseFilePath + fileName)
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a revalidation fails without a response, the cached file should be kept', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(() => ({
+          jobId: 1,
+          promise: Promise.reject(new Error('The Internet connection appears to be offline.')),
+        }))
+
+        const url = 'https://example.com/offline-revalidation.png'
+        const fileSystem = FileSystemFactory(null, null, { retryPolicy: { maxAttempts: 1 } })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const path = fileSystem.baseFilePath + fileName
+
+        mockStat(path, 0, '100')
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId, 'mutable'))
+
+        expect(values).toEqual([
+          expect.objectContaining({ path: 'file://' + path, fileName, status: 'revalidating' }),
+          expect.objectContaining({
+            path: 'file://' + path,
+            fileName,
+            status: 'error',
+            error: expect.objectContaining({ type: 'network' }),
+          }),
+        ])
+        expect(MockedRNFS.moveFile).not.toHaveBeenCalled()
+        expect(MockedRNFS.unlink).not.toHaveBeenCalledWith(path)
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the manifest is first loaded, stray temporary files should be removed', async () => {
+        MockedRNFS.exists.mockResolvedValue(true)
+
+        await FileSystemFactory().manifest()
+
+        expect(MockedRNFS.unlink).toHaveBeenCalledWith(tempDir)
+        expect(MockedRNFS.unlink.mock.invocationCallOrder[0]).toBeLessThan(
+          MockedRNFS.readFile.mock.invocationCallOrder[0],
+        )
+      })
+    })
+
+    describe('Content validation', () => {
+      // Mocks the contents of downloaded files, other files such as the manifest are empty.
+      const mockDownloadContents = (contents: string) =>
+        MockedRNFS.readFile.mockImplementation(async (filepath) =>
+          filepath.startsWith(tempDir) ? contents : '',
+        )
+
+      afterEach(() => MockedRNFS.readFile.mockReset())
+
+      const truncated = (options: RNFS.DownloadFileOptions) => {
+        options.begin?.({ jobId: 1, statusCode: 200, contentLength: 100, headers: {} })
+
+        return {
+          jobId: 1,
+          promise: Promise.resolve({ jobId: 1, bytesWritten: 50, statusCode: 200 }),
+        }
+      }
+
+      it('When fewer bytes are written than the Content-Length, the download should fail validation', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(truncated)
+
+        const url = 'https://example.com/truncated.jpg'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId))
+
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: null,
+            fileName,
+            status: 'error',
+            error: expect.objectContaining({
+              type: 'validation',
+              message: 'Download is incomplete, 50 of 100 bytes were written',
+            }),
+          }),
+        ])
+        expect(MockedRNFS.moveFile).not.toHaveBeenCalled()
+        expect((await fileSystem.manifest()).get(fileName)).toBeUndefined()
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the download is not an image, it should fail validation', async () => {
+        // A captive portal responding with an HTML page
+        MockedRNFS.read.mockResolvedValueOnce('PCFET0NUWVBFIGh0')
+
+        const url = 'https://example.com/captive-portal.jpg'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId))
+
+        expect(MockedRNFS.read).toHaveBeenCalledWith(
+          MockedRNFS.downloadFile.mock.calls[0][0].toFile,
+          12,
+          0,
+          'base64',
+        )
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: null,
+            fileName,
+            status: 'error',
+            error: expect.objectContaining({
+              type: 'validation',
+              message: 'Download is not an image',
+            }),
+          }),
+        ])
+        expect(MockedRNFS.moveFile).not.toHaveBeenCalled()
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the download is an image type that is not allowed, it should fail validation', async () => {
+        const url = 'https://example.com/not-a-jpeg.jpg'
+        const fileSystem = FileSystemFactory(null, null, { allowedImageTypes: ['jpeg', 'webp'] })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        MockedRNFS.read.mockResolvedValueOnce('iVBORw0KGgoAAAAN')
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId))
+
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: null,
+            fileName,
+            status: 'error',
+            error: expect.objectContaining({
+              type: 'validation',
+              message: 'Download is a png image which is not allowed',
+            }),
+          }),
+        ])
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the download does not match the integrity, it should fail validation', async () => {
+        mockDownloadContents('aGVsbG8=')
+
+        const url = 'https://example.com/tampered.jpg'
+        const integrity = 'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU='
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(
+          fileSystem.observable(url, requestId, 'immutable', null, { integrity }),
+        )
+
+        expect(MockedRNFS.readFile).toHaveBeenCalledWith(
+          MockedRNFS.downloadFile.mock.calls[0][0].toFile,
+          'base64',
+        )
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: null,
+            fileName,
+            status: 'error',
+            error: expect.objectContaining({ type: 'validation' }),
+          }),
+        ])
+        expect(MockedRNFS.moveFile).not.toHaveBeenCalled()
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the download matches the integrity, it should be cached', async () => {
+        mockDownloadContents('aGVsbG8=')
+
+        const url = 'https://example.com/verified.jpg'
+        const integrity = 'sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ='
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(
+          fileSystem.observable(url, requestId, 'immutable', null, { integrity }),
+        )
+
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: 'file://' + fileSystem.baseFilePath + fileName,
+            fileName,
+            status: 'cached',
+            origin: 'network',
+            statusCode: 200,
+          }),
+        ])
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+    })
+
+    describe('Stored extensions', () => {
+      it('When a url has no extension, the download should be stored with the extension of its image type', async () => {
+        const url = 'https://cdn.example.com/img/123?w=200'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const storedFileName = fileName.replace(/\.bin$/, '.png')
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const values = await collect(fileSystem.observable(url, requestId))
+
+        expect(values).toEqual([
+          loading(fileName),
+          expect.objectContaining({
+            path: 'file://' + fileSystem.baseFilePath + storedFileName,
+            fileName,
+            status: 'cached',
+          }),
+        ])
+        expect(MockedRNFS.moveFile).toHaveBeenCalledWith(
+          expect.stringContaining(tempDir),
+          fileSystem.baseFilePath + storedFileName,
+        )
+        expect((await fileSystem.manifest()).get(fileName)?.fileName).toBe(storedFileName)
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+
+        // Later requests for the url find the stored file without downloading it again
+        MockedRNFS.downloadFile.mockClear()
+        mockStat(fileSystem.baseFilePath + storedFileName, 0, '100')
+        const laterRequestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, laterRequestId)
+
+        const laterValues = await collect(fileSystem.observable(url, laterRequestId))
+
+        expect(laterValues).toEqual([
+          expect.objectContaining({
+            path: 'file://' + fileSystem.baseFilePath + storedFileName,
+            fileName,
+            status: 'cached',
+            origin: 'disk',
+          }),
+        ])
+        expect(MockedRNFS.downloadFile).not.toHaveBeenCalled()
+
+        FileSystem.unlockCacheFile(fileName, laterRequestId)
+      })
+
+      it('When a url has the extension of its image type, the download should be stored under the requested file name', async () => {
+        const url = 'https://example.com/photo.jpeg'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const values = await collect(fileSystem.fetchFile(url))
+
+        expect(values).toEqual([
+          expect.objectContaining({
+            path: 'file://' + fileSystem.baseFilePath + fileName,
+            fileName,
+            status: 'cached',
+          }),
+        ])
+        expect((await fileSystem.manifest()).resolve(fileName)).toBe(fileName)
+      })
+
+      it('When the server responds with another image type, the previous file should be replaced', async () => {
+        const url = 'https://cdn.example.com/img/456'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+        const pngFileName = fileName.replace(/\.bin$/, '.png')
+        const webpFileName = fileName.replace(/\.bin$/, '.webp')
+
+        const manifest = await fileSystem.manifest()
+        manifest.set(mockEntry({ url, fileName: pngFileName }))
+        manifest.setAlias(fileName, pngFileName)
+        mockStat(fileSystem.baseFilePath + pngFileName, 0, '100')
+
+        // Leading bytes of a webp file
+        MockedRNFS.read.mockResolvedValueOnce('UklGRiQAAABXRUJQ')
+
+        const values = await collect(fileSystem.fetchFile(url, fileName))
+
+        expect(values).toEqual([
+          expect.objectContaining({
+            path: 'file://' + fileSystem.baseFilePath + webpFileName,
+            fileName,
+          }),
+        ])
+        expect(MockedRNFS.unlink).toHaveBeenCalledWith(fileSystem.baseFilePath + pngFileName)
+        expect(manifest.get(fileName)?.fileName).toBe(webpFileName)
+        expect(manifest.get(pngFileName)).toBeUndefined()
+      })
+    })
+
+    describe('Retry policy', () => {
+      const response = (statusCode: number) => () => ({
+        jobId: 1,
+        promise: Promise.resolve({ jobId: 1, bytesWritten: 0, statusCode }),
+      })
+
+      it('#getRetryDelay should back off exponentially up to the maximum delay with jitter', () => {
+        const policy = { ...defaultRetryPolicy, baseDelay: 1000, maxDelay: 5000, jitter: 0.5 }
+        const random = jest.spyOn(Math, 'random').mockReturnValue(0)
+
+        expect([1, 2, 3, 4].map((attempt) => getRetryDelay(policy, attempt))).toEqual([
+          1000,
+          2000,
+          4000,
+          5000,
+        ])
+
+        random.mockReturnValue(1)
+        expect(getRetryDelay(policy, 2)).toBe(1000)
+
+        random.mockRestore()
+      })
+
+      it('When a download fails with a retryable status, it should be attempted again', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(response(503))
+
+        const url = 'https://example.com/unavailable.png'
+        const fileSystem = FileSystemFactory(null, null, { retryPolicy: { baseDelay: 0 } })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const info = await fileSystem
+          .observable(url, requestId)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+        expect(info).toMatchObject({
+          path: 'file://' + fileSystem.baseFilePath + fileName,
+          fileName,
+          status: 'cached',
+        })
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a download fails without a response, it should be attempted again', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(() => ({
+          jobId: 1,
+          promise: Promise.reject(new Error('The Internet connection appears to be offline.')),
+        }))
+
+        const url = 'https://example.com/offline.png'
+        const fileSystem = FileSystemFactory(null, null, { retryPolicy: { baseDelay: 0 } })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const info = await fileSystem
+          .observable(url, requestId)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+        expect(info.path).not.toBeNull()
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When every attempt fails, the download should fail after the maximum attempts', async () => {
+        MockedRNFS.downloadFile
+          .mockImplementationOnce(response(500))
+          .mockImplementationOnce(response(502))
+          .mockImplementationOnce(response(503))
+
+        const url = 'https://example.com/down.png'
+        const fileSystem = FileSystemFactory(null, null, {
+          retryPolicy: { baseDelay: 0, maxAttempts: 3 },
+        })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const info = await fileSystem
+          .observable(url, requestId)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(3)
+        expect(info).toMatchObject({
+          path: null,
+          fileName,
+          status: 'error',
+          statusCode: 503,
+          error: httpStatusError(503),
+        })
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a download fails with a status that is not retryable, it should not be attempted again', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(response(404))
+
+        const url = 'https://example.com/missing.png'
+        const fileSystem = FileSystemFactory(null, null, { retryPolicy: { baseDelay: 0 } })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const info = await fileSystem
+          .observable(url, requestId)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(1)
+        expect(info.path).toBeNull()
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a file is requested after a failure, it should be attempted again for every subscriber', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(response(500))
+
+        const url = 'https://example.com/failed-once.png'
+        const fileSystem = FileSystemFactory(null, null, { retryPolicy: { maxAttempts: 1 } })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const first = uuid.v4()
+        FileSystem.lockCacheFile(fileName, first)
+
+        const values: CacheFileInfo[] = []
+        const subscription = fileSystem
+          .observable(url, first)
+          .subscribe((info) => values.push(info))
+        await new Promise((resolve) => setImmediate(resolve))
+
+        const failed = expect.objectContaining({
+          path: null,
+          fileName,
+          status: 'error',
+          error: httpStatusError(500),
+        })
+        expect(values).toEqual([loading(fileName), failed])
+
+        const second = uuid.v4()
+        FileSystem.lockCacheFile(fileName, second)
+
+        const info = await fileSystem
+          .observable(url, second)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+        subscription.unsubscribe()
+
+        const cached = expect.objectContaining({
+          path: 'file://' + fileSystem.baseFilePath + fileName,
+          fileName,
+          status: 'cached',
+        })
+        expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+        expect(info).toEqual(cached)
+        expect(values).toEqual([loading(fileName), failed, loading(fileName), cached])
+
+        FileSystem.unlockCacheFile(fileName, first)
+        FileSystem.unlockCacheFile(fileName, second)
+      })
+    })
+
+    describe('Download errors', () => {
+      it('When a download fails with an unsuccessful status, the error should carry the status code', async () => {
+        MockedRNFS.downloadFile.mockImplementationOnce(() => ({
+          jobId: 1,
+          promise: Promise.resolve({ jobId: 1, bytesWritten: 0, statusCode: 404 }),
+        }))
+
+        const url = 'https://example.com/not-found.png'
+        const fileSystem = FileSystemFactory()
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const info = await fileSystem
+          .observable(url, requestId)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+
+        expect(info.error).toBeInstanceOf(CacheError)
+        expect(info.error).toMatchObject({ type: 'httpStatus', statusCode: 404 })
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When a download fails without a response, the error should be a network error', async () => {
+        const offline = new Error('The Internet connection appears to be offline.')
+        MockedRNFS.downloadFile.mockImplementationOnce(() => ({
+          jobId: 1,
+          promise: Promise.reject(offline),
+        }))
+
+        const url = 'https://example.com/no-connection.png'
+        const fileSystem = FileSystemFactory(null, null, { retryPolicy: { maxAttempts: 1 } })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const info = await fileSystem
+          .observable(url, requestId)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+
+        expect(info.path).toBeNull()
+        expect(info.error).toMatchObject({
+          type: 'network',
+          statusCode: null,
+          message: offline.message,
+          originalError: offline,
+        })
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the onBeforeRequest hook fails, the error should be a network error', async () => {
+        const url = 'https://example.com/no-token.png'
+        const fileSystem = FileSystemFactory(null, null, {
+          onBeforeRequest: () => Promise.reject(new Error('Token refresh failed')),
+          retryPolicy: { maxAttempts: 1 },
+        })
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const info = await fileSystem
+          .observable(url, requestId)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+
+        expect(MockedRNFS.downloadFile).not.toHaveBeenCalled()
+        expect(info.error).toMatchObject({ type: 'network', message: 'Token refresh failed' })
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+
+      it('When the cache directory can not be written, the error should be a disk write error', async () => {
+        const url = 'https://example.com/disk-full.png'
+        const fileSystem = FileSystemFactory()
+        fileSystem.pruneCache = jest.fn(() => Promise.reject(new Error('No space left on device')))
+        const fileName = fileSystem.getFileNameFromUrl(url)
+
+        const requestId = uuid.v4()
+        FileSystem.lockCacheFile(fileName, requestId)
+
+        const info = await fileSystem
+          .observable(url, requestId)
+          .pipe(
+            skipWhile(({ status }) => status === 'loading'),
+            take(1),
+          )
+          .toPromise()
+
+        expect(MockedRNFS.downloadFile).not.toHaveBeenCalled()
+        expect(info.error).toMatchObject({ type: 'diskWrite', message: 'No space left on device' })
+
+        FileSystem.unlockCacheFile(fileName, requestId)
+      })
+    })
+
+    it('When a invalid cache strategy is provided, an error should be thrown', () => {
+      const fileSystem = FileSystemFactory()
+
+      const url =
+        'https://img.wennermedia.com/5333a62d-07db-432a-92e2-198cafa38a14-326adb1a-d8ed-4a5d-b37e-5c88883e1989.png'
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      const requestId = uuid.v4()
+
+      expect(() => fileSystem.observable(url, requestId, 'invalid' as any, fileName)).toThrow(
+        'Invalid CacheStrategy invalid is unhandled',
+      )
+    })
+
+    it('#observable should throw if a lock does not exist', () => {
+      const fileSystem = FileSystemFactory()
+
+      expect(() => fileSystem.observable('https://i.redd.it/rc29s4bz61uz.png', uuid.v4())).toThrow(
+        'A lock must be aquired before requesting an observable',
+      )
+    })
+
+    it('#observable should reuse existing observables', () => {
+      const fileSystem = FileSystemFactory()
+
+      const url = 'https://i.redd.it/rc29s4bz61uz.png'
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      const componentIdA = uuid.v4()
+      const componentIdB = uuid.v4()
+
+      FileSystem.lockCacheFile(fileName, componentIdA)
+      FileSystem.lockCacheFile(fileName, componentIdB)
+
+      const a = fileSystem.observable(url, componentIdA)
+      const b = fileSystem.observable(url, componentIdB)
+
+      expect(a).toBe(b)
+
+      FileSystem.unlockCacheFile(fileName, componentIdA)
+      FileSystem.unlockCacheFile(fileName, componentIdB)
+    })
+
+    it('When a permanent request is made without an existing cached file, the file should be downloaded to the permanent directory', (done) => {
+      const fileSystem = FileSystemFactory()
+
+      const url = 'https://i.redd.it/rc29s4bz61uz.png'
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      const requestId = uuid.v4()
+
+      FileSystem.lockCacheFile(fileName, requestId)
+
+      fileSystem
+        .observable(url, requestId, 'immutable', null, { permanent: true })
+        .pipe(skipWhile(({ status }) => status === 'loading'))
+        .subscribe((element) => {
+          expect(element).toMatchObject({
+            path:
+              'file:///base/file/path/react-native-image-cache-hoc/permanent/d3b74e9fa8248a5805e2dcf17a8577acd28c089b.png',
+            fileName: 'd3b74e9fa8248a5805e2dcf17a8577acd28c089b.png',
+            status: 'cached',
+          })
+          expect(MockedRNFS.mkdir).toHaveBeenCalledWith(
+            '/base/file/path/react-native-image-cache-hoc/permanent',
+          )
+          FileSystem.unlockCacheFile(fileName, requestId)
+          done()
+        })
+    })
+
+    it('When a permanent request is made with an existing evictable file, the file should be moved to the permanent directory', (done) => {
+      const fileSystem = FileSystemFactory()
+
+      const url = 'https://example.com/promoted.png'
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      const requestId = uuid.v4()
+
+      mockStat(fileSystem.baseFilePath + fileName, 0, '')
+
+      FileSystem.lockCacheFile(fileName, requestId)
+
+      fileSystem
+        .observable(url, requestId, 'immutable', null, { permanent: true })
+        .subscribe((element) => {
+          expect(element.path).toBe(
+            'file:///base/file/path/react-native-image-cache-hoc/permanent/' + fileName,
+          )
+          expect(MockedRNFS.moveFile).toHaveBeenCalledWith(
+            '/base/file/path/react-native-image-cache-hoc/' + fileName,
+            '/base/file/path/react-native-image-cache-hoc/permanent/' + fileName,
+          )
+          expect(MockedRNFS.downloadFile).not.toHaveBeenCalledWith(
+            expect.objectContaining({ fromUrl: url }),
+          )
+          FileSystem.unlockCacheFile(fileName, requestId)
+          done()
+        })
+    })
+
+    it('#observable should handle failure responses on download', (done) => {
+      const fileSystem = FileSystemFactory()
+
+      MockedRNFS.downloadFile.mockImplementationOnce(() => ({
+        jobId: -1,
+        promise: Promise.resolve({ jobId: -1, bytesWritten: 0, statusCode: 404 }),
+      }))
+
+      fileSystem
+        .fetchFile(
+          'https://img.wennermedia.com/5333a62d-07db-432a-92e2-198cafa38a14-326adb1a-d8ed-4a5d-b37e-5c88883e1989.png',
+        )
+        .subscribe(({ path }) => {
+          expect(path).toBeNull()
+
+          expect(MockedRNFS.unlink).toHaveBeenCalled()
+
+          done()
+        })
+    })
+  })
+
+  describe('fetchFile', () => {
+    it('#fetchFile should validate path.', () => {
+      const fileSystem = FileSystemFactory()
+      const badFileName = '../../../../bad-filename.jpg'
+      expect(() => fileSystem.fetchFile('https://google.com/arbitrary.jpg', badFileName)).toThrow(
+        (() => {
+          const resolvedPath = pathLib.resolve(
+            mockData.basePath + '/react-native-image-cache-hoc/' + badFileName,
+          )
+          return resolvedPath + ' is not a valid file path.'
+        })(),
+      )
+    })
+
+    it('#fetchFile prune logic should be called on cache writes.', (done) => {
+      const fileSystem = FileSystemFactory()
+      // Mock fileSystem.pruneCache() to determine if it is called correctly.
+      fileSystem.pruneCache = jest.fn(() => Promise.resolve())
+      // fileSystem.exists() is mocked to always return true, so error should always be thrown unless clobber is set to true.
+      fileSystem
+        .fetchFile(
+          'https://img.wennermedia.com/5333a62d-07db-432a-92e2-198cafa38a14-326adb1a-d8ed-4a5d-b37e-5c88883e1989.png',
+        )
+        .subscribe({
+          complete: () => {
+            expect(fileSystem.pruneCache).toHaveBeenCalled()
+            done()
+          },
+        })
+    })
+  })
+
+  describe('Prefetch', () => {
+    const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+    it('When urls are prefetched, the result of each url and the aggregate progress should be reported', async () => {
+      const downloadFile = MockedRNFS.downloadFile.getMockImplementation() as typeof RNFS.downloadFile
+      MockedRNFS.downloadFile.mockImplementation((options: RNFS.DownloadFileOptions) => {
+        if (options.fromUrl.endsWith('missing.png')) {
+          return {
+            jobId: 2,
+            promise: Promise.resolve({ jobId: 2, bytesWritten: 0, statusCode: 404 }),
+          }
+        }
+
+        options.begin?.({ jobId: 1, statusCode: 200, contentLength: 100, headers: {} })
+        options.progress?.({ jobId: 1, contentLength: 100, bytesWritten: 100 })
+
+        return {
+          jobId: 1,
+          promise: Promise.resolve({ jobId: 1, bytesWritten: 100, statusCode: 200 }),
+        }
+      })
+
+      const fileSystem = FileSystemFactory()
+      const urls = [
+        'https://example.com/product-1.png',
+        'https://example.com/missing.png',
+        'https://example.com/product-2.png',
+      ]
+
+      const handle = fileSystem.prefetch(urls)
+
+      let completed = false
+      const progress: PrefetchProgress[] = []
+      handle.progress.subscribe({
+        next: (value) => progress.push(value),
+        complete: () => (completed = true),
+      })
+
+      const results = await handle.results
+      MockedRNFS.downloadFile.mockImplementation(downloadFile)
+
+      expect(results).toEqual([
+        {
+          url: urls[0],
+          path: 'file://' + fileSystem.baseFilePath + fileSystem.getFileNameFromUrl(urls[0]),
+          cancelled: false,
+        },
+        {
+          url: urls[1],
+          path: null,
+          error: expect.objectContaining({ type: 'httpStatus', statusCode: 404 }),
+          cancelled: false,
+        },
+        {
+          url: urls[2],
+          path: 'file://' + fileSystem.baseFilePath + fileSystem.getFileNameFromUrl(urls[2]),
+          cancelled: false,
+        },
+      ])
+      expect(progress[0]).toEqual({ total: 3, completed: 0, failed: 0, bytesWritten: 0 })
+      expect(progress[progress.length - 1]).toEqual({
+        total: 3,
+        completed: 2,
+        failed: 1,
+        bytesWritten: 200,
+      })
+      expect(completed).toBe(true)
+      expect(FileSystem.cacheLock).toEqual({})
+    })
+
+    it('When a prefetch is cancelled, urls that have not settled should be stopped', async () => {
+      MockedRNFS.downloadFile.mockImplementationOnce(() => ({
+        jobId: 9,
+        promise: new Promise<RNFS.DownloadResult>((_resolve, reject) => {
+          MockedRNFS.stopDownload.mockImplementationOnce(() =>
+            reject(new Error('Download has been aborted')),
+          )
+        }),
+      }))
+
+      const fileSystem = FileSystemFactory()
+      const urls = ['https://example.com/slow.png', 'https://example.com/next.png']
+
+      const handle = fileSystem.prefetch(urls, { concurrency: 1 })
+      await flush()
+
+      expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(1)
+
+      handle.cancel()
+      const results = await handle.results
+      await flush()
+
+      expect(MockedRNFS.stopDownload).toHaveBeenCalledWith(9)
+      expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(1)
+      expect(results).toEqual(urls.map((url) => ({ url, path: null, cancelled: true })))
+    })
+
+    it('When a cached url is prefetched with the mutable strategy, it should settle once it is revalidated', async () => {
+      const url = 'https://example.com/revalidated.png'
+      const fileSystem = FileSystemFactory()
+      const path = fileSystem.baseFilePath + fileSystem.getFileNameFromUrl(url)
+
+      mockStat(path, 0, '100')
+
+      const results = await fileSystem.prefetch([url], { strategy: 'mutable' }).results
+
+      expect(MockedRNFS.downloadFile).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fromUrl: url,
+          headers: { 'if-modified-since': new Date(0).toUTCString() },
+        }),
+      )
+      expect(MockedRNFS.stopDownload).not.toHaveBeenCalled()
+      expect(results).toEqual([{ url, path: 'file://' + path, cancelled: false }])
+    })
+
+    it('When the concurrency is not a positive integer, an error should be thrown', () => {
+      const fileSystem = FileSystemFactory()
+
+      expect(() => fileSystem.prefetch([], { concurrency: 0 })).toThrow(
+        'concurrency option must be a positive integer.',
+      )
+    })
+
+    it('When the strategy is invalid, an error should be thrown', () => {
+      const fileSystem = FileSystemFactory()
+
+      expect(() => fileSystem.prefetch([], { strategy: 'never' as any })).toThrow(
+        "strategy option must be 'immutable', 'mutable' or 'http'.",
+      )
+    })
+
+    it('When a url can not be requested, it should be unlocked and recorded as failed', async () => {
+      const fileSystem = FileSystemFactory()
+      const urls = ['https://example.com/throws.png', 'https://example.com/requested.png']
+      jest.spyOn(fileSystem, 'observable').mockImplementationOnce(() => {
+        throw new Error('Request failed')
+      })
+
+      const handle = fileSystem.prefetch(urls)
+      let progress: PrefetchProgress | null = null
+      handle.progress.subscribe((value) => (progress = value))
+
+      const results = await handle.results
+
+      expect(results).toEqual([
+        {
+          url: urls[0],
+          path: null,
+          error: expect.objectContaining({ type: 'invalidUrl', message: 'Request failed' }),
+          cancelled: false,
+        },
+        {
+          url: urls[1],
+          path: 'file://' + fileSystem.baseFilePath + fileSystem.getFileNameFromUrl(urls[1]),
+          cancelled: false,
+        },
+      ])
+      expect(progress).toMatchObject({ total: 2, completed: 1, failed: 1 })
+      expect(FileSystem.cacheLock).toEqual({})
+    })
+  })
+
+  describe('Manifest', () => {
+    it('When a file is downloaded, its response metadata should be recorded', (done) => {
+      MockedRNFS.downloadFile.mockImplementationOnce((options) => {
+        options.begin?.({
+          jobId: 1,
+          statusCode: 200,
+          contentLength: 1234,
+          headers: {
+            'Content-Type': 'image/png',
+            ETag: '"abc"',
+            'Last-Modified': 'Wed, 21 Oct 2015 07:28:00 GMT',
+          },
+        })
+
+        return {
+          jobId: 1,
+          promise: Promise.resolve({ jobId: 1, bytesWritten: 1234, statusCode: 200 }),
+        }
+      })
+
+      const fileSystem = FileSystemFactory()
+      const url = 'https://i.redd.it/rc29s4bz61uz.png'
+
+      fileSystem.fetchFile(url).subscribe(async ({ fileName }) => {
+        const manifest = await fileSystem.manifest()
+
+        expect(manifest.get(fileName)).toMatchObject({
+          url,
+          fileName,
+          permanent: false,
+          size: 1234,
+          contentType: 'image/png',
+          etag: '"abc"',
+          lastModified: 'Wed, 21 Oct 2015 07:28:00 GMT',
+        })
+        expect(MockedRNFS.writeFile).toHaveBeenCalled()
+
+        done()
+      })
+    })
+
+    it('When a cached file is found without an entry, an entry should be created with its url', async () => {
+      const fileSystem = FileSystemFactory()
+      const manifest = await fileSystem.manifest()
+
+      const url = 'https://example.com/unknown.png'
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      const requestId = uuid.v4()
+
+      mockStat(fileSystem.baseFilePath + fileName, 1508878829000, '4321')
+
+      FileSystem.lockCacheFile(fileName, requestId)
+
+      await fileSystem
+        .observable(url, requestId)
+        .pipe(
+          skipWhile(({ status }) => status === 'loading'),
+          take(1),
+        )
+        .toPromise()
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(manifest.get(fileName)).toMatchObject({
+        url,
+        fileName,
+        size: 4321,
+        createdAt: 1508878829000,
+      })
+
+      FileSystem.unlockCacheFile(fileName, requestId)
+    })
+
+    it('#unlink should remove the entry from the manifest', async () => {
+      const fileSystem = FileSystemFactory()
+      const manifest = await fileSystem.manifest()
+
+      manifest.set(mockEntry({ fileName: 'a.jpg' }))
+      manifest.set(mockEntry({ fileName: 'b.jpg', permanent: true }))
+
+      await fileSystem.unlink('a.jpg')
+      expect(manifest.get('a.jpg')).toBeUndefined()
+
+      await fileSystem.unlink('permanent/b.jpg')
+      expect(manifest.get('b.jpg')).toBeUndefined()
+    })
+
+    it('#unlink of the cache directory should clear the manifest', async () => {
+      const fileSystem = FileSystemFactory()
+      const manifest = await fileSystem.manifest()
+
+      await fileSystem.unlink('')
+
+      expect(manifest.values()).toHaveLength(0)
+    })
+  })
+
+  describe('Cache Pruning', () => {
+    it('When the cache directory exists, method should complete', async () => {
+      const fileSystem = FileSystemFactory()
+
+      await fileSystem.pruneCache()
+    })
+
+    it('When the cache is too large, the least recently used unlocked files should be deleted without reading the directory', async () => {
+      const fileSystem = FileSystemFactory(100)
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ fileName: 'newest.jpg', size: 50, createdAt: 3, lastAccess: 3 }))
+      manifest.set(mockEntry({ fileName: 'oldest.jpg', size: 50, createdAt: 1, lastAccess: 1 }))
+      manifest.set(mockEntry({ fileName: 'locked.jpg', size: 50, createdAt: 0, lastAccess: 0 }))
+      manifest.set(mockEntry({ fileName: 'middle.jpg', size: 50, createdAt: 2, lastAccess: 2 }))
+
+      FileSystem.lockCacheFile('locked.jpg', 'arbitrary-uuid-1')
+      MockedRNFS.readDir.mockClear()
+
+      await fileSystem.pruneCache()
+
+      FileSystem.unlockCacheFile('locked.jpg', 'arbitrary-uuid-1')
+
+      expect(MockedRNFS.readDir).not.toHaveBeenCalled()
+      expect(MockedRNFS.unlink).toHaveBeenCalledTimes(2)
+      expect(MockedRNFS.unlink).toHaveBeenCalledWith(
+        '/base/file/path/react-native-image-cache-hoc/oldest.jpg',
+      )
+      expect(MockedRNFS.unlink).toHaveBeenCalledWith(
+        '/base/file/path/react-native-image-cache-hoc/middle.jpg',
+      )
+      expect(manifest.values().map((entry) => entry.fileName)).toEqual(['newest.jpg', 'locked.jpg'])
+    })
+
+    it('When a file is locked by the name it was requested with, it should not be deleted', async () => {
+      const fileSystem = FileSystemFactory(100)
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ fileName: 'locked.png', size: 150, createdAt: 0, lastAccess: 0 }))
+      manifest.setAlias('locked.bin', 'locked.png')
+
+      FileSystem.lockCacheFile('locked.bin', 'arbitrary-uuid-1')
+
+      await fileSystem.pruneCache()
+
+      FileSystem.unlockCacheFile('locked.bin', 'arbitrary-uuid-1')
+
+      expect(MockedRNFS.unlink).not.toHaveBeenCalled()
+      expect(manifest.get('locked.bin')).toBeDefined()
+    })
+
+    it('When the cache is too large, a frequently used file should be kept even though it was downloaded first', async () => {
+      const fileSystem = FileSystemFactory(100)
+      const manifest = await fileSystem.manifest()
+
+      const url = 'https://example.com/avatar.png'
+      const fileName = fileSystem.getFileNameFromUrl(url)
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ url, fileName, size: 50, createdAt: 1, lastAccess: 1 }))
+      manifest.set(mockEntry({ fileName: 'later.jpg', size: 100, createdAt: 2, lastAccess: 2 }))
+
+      // Use the avatar
+      mockStat(fileSystem.baseFilePath + fileName, 1, '50')
+      const requestId = uuid.v4()
+      FileSystem.lockCacheFile(fileName, requestId)
+      await collect(fileSystem.observable(url, requestId))
+      FileSystem.unlockCacheFile(fileName, requestId)
+
+      expect(manifest.get(fileName)?.lastAccess).toBeGreaterThan(2)
+
+      await fileSystem.pruneCache()
+
+      expect(MockedRNFS.unlink).toHaveBeenCalledTimes(1)
+      expect(MockedRNFS.unlink).toHaveBeenCalledWith(
+        '/base/file/path/react-native-image-cache-hoc/later.jpg',
+      )
+    })
+
+    it('When the cache is too large, expired files should be deleted before the oldest files', async () => {
+      const fileSystem = FileSystemFactory(100)
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ fileName: 'oldest.jpg', size: 50, createdAt: 1 }))
+      manifest.set(
+        mockEntry({
+          fileName: 'expired.jpg',
+          size: 50,
+          createdAt: 2,
+          maxAge: 60,
+          validatedAt: Date.now() - 61000,
+        }),
+      )
+      manifest.set(mockEntry({ fileName: 'newest.jpg', size: 50, createdAt: 3 }))
+
+      await fileSystem.pruneCache()
+
+      expect(MockedRNFS.unlink).toHaveBeenCalledTimes(1)
+      expect(MockedRNFS.unlink).toHaveBeenCalledWith(
+        '/base/file/path/react-native-image-cache-hoc/expired.jpg',
+      )
+    })
+
+    const evictionPolicies: { evictionPolicy: EvictionPolicy; name: string; fileName: string }[] = [
+      { evictionPolicy: 'fifo', name: 'fifo', fileName: 'a.jpg' },
+      { evictionPolicy: 'lru', name: 'lru', fileName: 'b.jpg' },
+      { evictionPolicy: 'lfu', name: 'lfu', fileName: 'c.jpg' },
+      {
+        evictionPolicy: (a: CacheEntry, b: CacheEntry) => b.createdAt - a.createdAt,
+        name: 'a comparator',
+        fileName: 'c.jpg',
+      },
+    ]
+
+    evictionPolicies.forEach(({ evictionPolicy, name, fileName }) => {
+      it(`When the eviction policy is ${name}, ${fileName} should be deleted`, async () => {
+        const fileSystem = FileSystemFactory(100, null, { evictionPolicy })
+        const manifest = await fileSystem.manifest()
+
+        manifest.entries = {}
+        manifest.set(
+          mockEntry({ fileName: 'a.jpg', size: 50, createdAt: 1, lastAccess: 3, hits: 5 }),
+        )
+        manifest.set(
+          mockEntry({ fileName: 'b.jpg', size: 50, createdAt: 2, lastAccess: 1, hits: 9 }),
+        )
+        manifest.set(
+          mockEntry({ fileName: 'c.jpg', size: 50, createdAt: 3, lastAccess: 2, hits: 1 }),
+        )
+
+        await fileSystem.pruneCache()
+
+        expect(MockedRNFS.unlink).toHaveBeenCalledTimes(1)
+        expect(MockedRNFS.unlink).toHaveBeenCalledWith(
+          '/base/file/path/react-native-image-cache-hoc/' + fileName,
+        )
+      })
+    })
+
+    it('When the eviction policy is size, the largest files should be deleted first', async () => {
+      const fileSystem = FileSystemFactory(100, null, { evictionPolicy: 'size' })
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ fileName: 'small.jpg', size: 30, createdAt: 1 }))
+      manifest.set(mockEntry({ fileName: 'large.jpg', size: 80, createdAt: 2 }))
+      manifest.set(mockEntry({ fileName: 'medium.jpg', size: 40, createdAt: 3 }))
+
+      await fileSystem.pruneCache()
+
+      expect(MockedRNFS.unlink).toHaveBeenCalledTimes(1)
+      expect(MockedRNFS.unlink).toHaveBeenCalledWith(
+        '/base/file/path/react-native-image-cache-hoc/large.jpg',
+      )
+    })
+
+    it('When a file is read from the cache, its hit count should be incremented', async () => {
+      const fileSystem = FileSystemFactory()
+      const manifest = await fileSystem.manifest()
+
+      const url = 'https://example.com/hits.png'
+      const fileName = fileSystem.getFileNameFromUrl(url)
+
+      manifest.set(mockEntry({ url, fileName, size: 50, hits: 1 }))
+      mockStat(fileSystem.baseFilePath + fileName, 1, '50')
+
+      const requestId = uuid.v4()
+      FileSystem.lockCacheFile(fileName, requestId)
+      await collect(fileSystem.observable(url, requestId))
+      FileSystem.unlockCacheFile(fileName, requestId)
+
+      expect(manifest.get(fileName)?.hits).toBe(2)
+    })
+
+    it('When the eviction policy is invalid, an error should be thrown', () => {
+      expect(() =>
+        FileSystemFactory(null, null, { evictionPolicy: 'random' as EvictionPolicy }),
+      ).toThrow('Invalid EvictionPolicy random is unhandled')
+    })
+
+    it('When the cache directory does not exist, method should exit early', async () => {
+      MockedRNFS.exists.mockResolvedValueOnce(false)
+
+      const fileSystem = FileSystemFactory()
+
+      await fileSystem.pruneCache()
+
+      expect(MockedRNFS.readDir).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Cache statistics', () => {
+    it('When files are cached, each entry should be listed with its state', async () => {
+      const fileSystem = FileSystemFactory(100)
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.aliases = {}
+      manifest.set(
+        mockEntry({
+          url: 'https://example.com/photo',
+          fileName: 'photo.png',
+          size: 50,
+          createdAt: 1,
+          lastAccess: 2,
+        }),
+      )
+      manifest.setAlias('photo.bin', 'photo.png')
+      manifest.set(mockEntry({ fileName: 'logo.png', permanent: true, size: 20 }))
+
+      // Files are locked by the name they were requested with
+      FileSystem.lockCacheFile('photo.bin', 'arbitrary-uuid-1')
+      const entries = await fileSystem.listEntries()
+      FileSystem.unlockCacheFile('photo.bin', 'arbitrary-uuid-1')
+
+      expect(entries).toEqual([
+        {
+          url: 'https://example.com/photo',
+          fileName: 'photo.png',
+          size: 50,
+          mtime: 1,
+          lastAccess: 2,
+          locked: true,
+          permanent: false,
+        },
+        {
+          url: null,
+          fileName: 'logo.png',
+          size: 20,
+          mtime: 0,
+          lastAccess: 0,
+          locked: false,
+          permanent: true,
+        },
+      ])
+    })
+
+    it('When files are cached, the stats should total their sizes', async () => {
+      const fileSystem = FileSystemFactory(100)
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ fileName: 'a.jpg', size: 30 }))
+      manifest.set(mockEntry({ fileName: 'b.jpg', size: 40 }))
+      manifest.set(mockEntry({ fileName: 'permanent.jpg', permanent: true, size: 1000 }))
+
+      FileSystem.lockCacheFile('a.jpg', 'arbitrary-uuid-1')
+      const stats = await fileSystem.getStats()
+      FileSystem.unlockCacheFile('a.jpg', 'arbitrary-uuid-1')
+
+      expect(stats).toEqual({
+        totalBytes: 1070,
+        permanentBytes: 1000,
+        entryCount: 3,
+        lockedCount: 1,
+        pruneLimit: 100,
+      })
+    })
+
+    it('When nothing is cached, the stats should be empty', async () => {
+      const fileSystem = FileSystemFactory()
+      ;(await fileSystem.manifest()).entries = {}
+
+      await expect(fileSystem.getStats()).resolves.toEqual({
+        totalBytes: 0,
+        permanentBytes: 0,
+        entryCount: 0,
+        lockedCount: 0,
+        pruneLimit: fileSystem.cachePruneTriggerLimit,
+      })
+    })
+  })
+
+  describe('Permanent files', () => {
+    it('When a file is made evictable, it should be moved out of the permanent directory', async () => {
+      const fileSystem = FileSystemFactory()
+
+      await expect(
+        fileSystem.setPermanent('https://i.redd.it/rc29s4bz61uz.png', false),
+      ).resolves.toBe(true)
+
+      expect(MockedRNFS.moveFile).toHaveBeenCalledWith(
+        '/base/file/path/react-native-image-cache-hoc/permanent/d3b74e9fa8248a5805e2dcf17a8577acd28c089b.png',
+        '/base/file/path/react-native-image-cache-hoc/d3b74e9fa8248a5805e2dcf17a8577acd28c089b.png',
+      )
+    })
+
+    it('When the url has not been cached, it should not be moved', async () => {
+      const fileSystem = FileSystemFactory()
+      await fileSystem.manifest()
+
+      MockedRNFS.exists.mockResolvedValueOnce(false).mockResolvedValueOnce(false)
+
+      await expect(
+        fileSystem.setPermanent('https://i.redd.it/rc29s4bz61uz.png', true),
+      ).resolves.toBe(false)
+
+      expect(MockedRNFS.moveFile).not.toHaveBeenCalled()
+    })
+
+    it('When a file served to an evictable request is requested as permanent, it should be moved to the permanent tier', async () => {
+      const url = 'https://example.com/offline-pack.png'
+      const fileSystem = FileSystemFactory()
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      const requestId = uuid.v4()
+      FileSystem.lockCacheFile(fileName, requestId)
+
+      const values: CacheFileInfo[] = []
+      const subscription = fileSystem
+        .observable(url, requestId)
+        .subscribe((value) => values.push(value))
+
+      const path = await fileSystem.getLocalFilePathFromUrl(url, true)
+
+      expect(path).toBe('file://' + fileSystem.baseFilePath + 'permanent/' + fileName)
+      expect(MockedRNFS.moveFile).toHaveBeenCalledWith(
+        fileSystem.baseFilePath + fileName,
+        fileSystem.baseFilePath + 'permanent/' + fileName,
+      )
+      expect((await fileSystem.manifest()).get(fileName)).toMatchObject({ permanent: true })
+
+      // The components of the file are moved to the new path
+      expect(values[values.length - 1]).toMatchObject({ path, status: 'cached' })
+
+      subscription.unsubscribe()
+      FileSystem.unlockCacheFile(fileName, requestId)
+    })
+
+    it('#pruneCache should never delete permanent files', async () => {
+      const fileSystem = FileSystemFactory(100)
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ fileName: 'permanent.jpg', permanent: true, size: 1000 }))
+
+      await fileSystem.pruneCache()
+
+      expect(MockedRNFS.unlink).not.toHaveBeenCalled()
+      expect(manifest.get('permanent.jpg')).toBeDefined()
+    })
+  })
+
+  describe('Cache events', () => {
+    // Collects the events emitted until the pending file system work has completed.
+    const collectEvents = async (fileSystem: FileSystem, work: () => Promise<unknown>) => {
+      const events: CacheEvent[] = []
+      const subscription = fileSystem.eventObservable().subscribe((event) => events.push(event))
+      await work()
+      await new Promise((resolve) => setImmediate(resolve))
+      subscription.unsubscribe()
+      return events
+    }
+
+    it('When a file is not cached, a miss and its download should be emitted', async () => {
+      MockedRNFS.downloadFile.mockReturnValueOnce({
+        jobId: 1,
+        promise: Promise.resolve({ jobId: 1, statusCode: 200, bytesWritten: 1234 }),
+      })
+
+      const url = 'https://example.com/event-miss.png'
+      const fileSystem = FileSystemFactory()
+      ;(await fileSystem.manifest()).entries = {}
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      const requestId = uuid.v4()
+      FileSystem.lockCacheFile(fileName, requestId)
+
+      const events = await collectEvents(fileSystem, () =>
+        collect(fileSystem.observable(url, requestId)),
+      )
+      FileSystem.unlockCacheFile(fileName, requestId)
+
+      expect(events).toEqual([
+        {
+          type: 'miss',
+          url,
+          fileName,
+          duration: expect.any(Number),
+          timestamp: expect.any(Number),
+        },
+        {
+          type: 'downloadStart',
+          url,
+          fileName,
+          revalidation: false,
+          timestamp: expect.any(Number),
+        },
+        {
+          type: 'downloadComplete',
+          url,
+          fileName,
+          size: 1234,
+          duration: expect.any(Number),
+          statusCode: 200,
+          timestamp: expect.any(Number),
+        },
+      ])
+    })
+
+    it('When a download fails, the failure should be emitted with its error', async () => {
+      MockedRNFS.downloadFile.mockReturnValueOnce({
+        jobId: 1,
+        promise: Promise.resolve({ jobId: 1, statusCode: 404, bytesWritten: 0 }),
+      })
+
+      const url = 'https://example.com/event-fail.png'
+      const fileSystem = FileSystemFactory()
+      ;(await fileSystem.manifest()).entries = {}
+
+      const events = await collectEvents(fileSystem, () => collect(fileSystem.fetchFile(url)))
+
+      expect(events.map(({ type }) => type)).toEqual(['downloadStart', 'downloadFail'])
+      expect(events[1]).toMatchObject({ url, error: httpStatusError(404) })
+    })
+
+    it('When a cached file is revalidated, a hit and the result of the revalidation should be emitted', async () => {
+      MockedRNFS.downloadFile.mockReturnValueOnce({
+        jobId: 1,
+        promise: Promise.resolve({ jobId: 1, statusCode: 304, bytesWritten: 0 }),
+      })
+
+      const url = 'https://example.com/event-hit.png'
+      const fileSystem = FileSystemFactory()
+      ;(await fileSystem.manifest()).entries = {}
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      mockStat(fileSystem.baseFilePath + fileName, 0, '5000')
+      const requestId = uuid.v4()
+      FileSystem.lockCacheFile(fileName, requestId)
+
+      const events = await collectEvents(fileSystem, () =>
+        collect(fileSystem.observable(url, requestId, 'mutable')),
+      )
+      FileSystem.unlockCacheFile(fileName, requestId)
+
+      expect(events.map(({ type }) => type)).toEqual(['hit', 'downloadStart', 'revalidate'])
+      expect(events[0]).toMatchObject({ url, fileName, size: 5000 })
+      expect(events[1]).toMatchObject({ revalidation: true })
+      expect(events[2]).toMatchObject({
+        url,
+        fileName,
+        result: 'notModified',
+        size: 5000,
+        statusCode: 304,
+      })
+    })
+
+    it('When files are pruned, the removed entries should be emitted', async () => {
+      const fileSystem = FileSystemFactory(100)
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ fileName: 'old.jpg', url: 'https://example.com/old.jpg', size: 80 }))
+      manifest.set(mockEntry({ fileName: 'new.jpg', size: 80, createdAt: 1, lastAccess: 1 }))
+
+      const events = await collectEvents(fileSystem, () => fileSystem.pruneCache())
+
+      expect(events).toEqual([
+        {
+          type: 'prune',
+          entries: [{ url: 'https://example.com/old.jpg', fileName: 'old.jpg', size: 80 }],
+          size: 80,
+          duration: expect.any(Number),
+          timestamp: expect.any(Number),
+        },
+      ])
+    })
+
+    it('When files are unlinked or the cache is flushed, the removed size should be emitted', async () => {
+      const fileSystem = FileSystemFactory()
+      const manifest = await fileSystem.manifest()
+
+      manifest.entries = {}
+      manifest.set(mockEntry({ fileName: 'a.jpg', size: 10 }))
+      manifest.set(mockEntry({ fileName: 'b.jpg', size: 20 }))
+      manifest.set(mockEntry({ fileName: 'c.jpg', permanent: true, size: 30 }))
+
+      const events = await collectEvents(fileSystem, async () => {
+        await fileSystem.unlink('a.jpg')
+        await fileSystem.unlink('')
+      })
+
+      expect(events).toEqual([
+        {
+          type: 'unlink',
+          path: 'a.jpg',
+          count: 1,
+          size: 10,
+          duration: expect.any(Number),
+          timestamp: expect.any(Number),
+        },
+        {
+          type: 'flush',
+          path: '',
+          count: 2,
+          size: 50,
+          duration: expect.any(Number),
+          timestamp: expect.any(Number),
+        },
+      ])
+    })
+  })
+
+  describe('unlink', () => {
+    it('#unlink should only accept valid paths.', () => {
+      const fileSystem = FileSystemFactory()
+
+      const badFileName = '/../../../../../bad-file-name.jpg'
+
+      return fileSystem
+        .unlink(badFileName)
+        .then(() => {
+          throw new Error('Bad file path was accepted.')
+        })
+        .catch((error) => {
+          const resolvedPath = pathLib.resolve(mockData.basePath + badFileName)
+
+          error.should.deepEqual(new Error(resolvedPath + ' is not a valid file path.'))
+        })
+    })
+
+    it('#unlink should work as expected for valid paths.', () => {
+      // Mock unlink to be true.
+      MockedRNFS.unlink.mockResolvedValueOnce()
+
+      const fileSystem = FileSystemFactory()
+
+      const validPath = '/valid.jpg'
+
+      return expect(fileSystem.unlink(validPath)).resolves.toEqual(true)
+    })
+
+    it('#unlink should work as expected for invalid paths.', () => {
+      // Mock unlink to be false.
+      MockedRNFS.exists.mockResolvedValueOnce(false)
+
+      const fileSystem = FileSystemFactory()
+
+      const invalidPath = '/invalid.jpg'
+
+      return expect(fileSystem.unlink(invalidPath)).resolves.toEqual(true)
+    })
+
+    it('When a requested file is unlinked, it should emit unlinked and be downloaded by the next request', async () => {
+      const url = 'https://example.com/unlinked.png'
+      const fileSystem = FileSystemFactory()
+      const fileName = fileSystem.getFileNameFromUrl(url)
+      const requestId = uuid.v4()
+      FileSystem.lockCacheFile(fileName, requestId)
+
+      const values: CacheFileInfo[] = []
+      const subscription = fileSystem
+        .observable(url, requestId)
+        .subscribe((value) => values.push(value))
+      await new Promise((resolve) => setImmediate(resolve))
+
+      await fileSystem.unlink('')
+
+      expect(values[values.length - 1]).toMatchObject({
+        path: null,
+        fileName,
+        status: 'unlinked',
+        origin: 'disk',
+      })
+      expect(values[values.length - 1].error).toBeUndefined()
+
+      // The subscribers of the unlinked file receive the result of the next request.
+      await collect(fileSystem.observable(url, requestId))
+
+      expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+      expect(values[values.length - 1]).toMatchObject({ fileName, status: 'cached' })
+
+      subscription.unsubscribe()
+      FileSystem.unlockCacheFile(fileName, requestId)
+    })
+
+    it('#unlink should remove a file by the name it was requested with', async () => {
+      const fileSystem = FileSystemFactory()
+      const manifest = await fileSystem.manifest()
+
+      manifest.set(mockEntry({ fileName: 'requested.png' }))
+      manifest.setAlias('requested.bin', 'requested.png')
+
+      await expect(fileSystem.unlink('requested.bin')).resolves.toEqual(true)
+
+      expect(MockedRNFS.unlink).toHaveBeenCalledWith(fileSystem.baseFilePath + 'requested.png')
+      expect(manifest.get('requested.png')).toBeUndefined()
+      expect(manifest.resolve('requested.bin')).toBe('requested.bin')
     })
   })
 })
@@ -0,0 +1,162 @@
+import React from 'react'
+import { Image } from 'react-native'
+import { act, create, ReactTestRenderer } from 'react-test-renderer'
+import { EMPTY } from 'rxjs'
+import {
+  FileSystem,
+  FileSystemFactory,
+  ImageCacheProvider,
+  imageCacheHoc,
+  ReactNativeImageCacheHocOptions,
+  useCachedImage,
+  useImageCache,
+} from '../src/index'
+import { CachedImage } from '../src/useCachedImage'
+import { mockData } from './mockData'
+
+describe('ImageCacheProvider', () => {
+  const source = { uri: 'https://cdn.example.com/provided.png' }
+  const config: ReactNativeImageCacheHocOptions = {
+    fileDirName: 'provided-dir',
+    fileHostWhitelist: ['cdn.example.com'],
+  }
+
+  let renderer: ReactTestRenderer
+  const render = (element: React.ReactElement) =>
+    act(async () => {
+      renderer = create(element)
+    })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    FileSystem.manifests = {}
+  })
+
+  afterEach(async () => {
+    await act(async () => renderer.unmount())
+  })
+
+  it('When a HOC is rendered inside a provider, it should use the provided config and FileSystem', async () => {
+    const CacheableImage = imageCacheHoc(Image)
+    const fileSystem = FileSystemFactory(null, 'swapped-dir')
+
+    await render(
+      <ImageCacheProvider config={config} fileSystem={fileSystem}>
+        <CacheableImage source={source} />
+      </ImageCacheProvider>,
+    )
+
+    const instance = renderer.root.findByType(CacheableImage).instance
+    expect(instance.fileSystem).toBe(fileSystem)
+    expect(instance.options.fileHostWhitelist).toEqual(['cdn.example.com'])
+    expect(instance.urlError).toBeNull()
+  })
+
+  it('When the HOC has options, they should take precedence over the provided config', async () => {
+    const CacheableImage = imageCacheHoc(Image, {
+      fileDirName: 'own-dir',
+      fileHostWhitelist: ['other.example.com'],
+    })
+    const SharedImage = imageCacheHoc(Image, { fileHostWhitelist: ['cdn.example.com'] })
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    await render(
+      <ImageCacheProvider config={config}>
+        <CacheableImage source={source} />
+        <SharedImage source={source} />
+      </ImageCacheProvider>,
+    )
+
+    const instance = renderer.root.findByType(CacheableImage).instance
+    expect(instance.fileSystem.baseFilePath).toBe(mockData.basePath + '/own-dir/')
+    expect(instance.urlError).toMatchObject({ type: 'hostNotAllowed' })
+
+    // Options that do not configure the FileSystem share the provided FileSystem
+    const sharedInstance = renderer.root.findByType(SharedImage).instance
+    expect(sharedInstance.fileSystem.baseFilePath).toBe(mockData.basePath + '/provided-dir/')
+
+    jest.restoreAllMocks()
+  })
+
+  it('When the hook is used inside a provider, it should use the provided config and FileSystem', async () => {
+    let result: CachedImage | null = null
+    const Probe = () => {
+      result = useCachedImage(source)
+      return null
+    }
+
+    await render(
+      <ImageCacheProvider config={config}>
+        <Probe />
+      </ImageCacheProvider>,
+    )
+
+    expect(result).toMatchObject({
+      status: 'loaded',
+      uri: expect.stringContaining(mockData.basePath + '/provided-dir/'),
+    })
+  })
+
+  it('When useImageCache is used inside a provider, it should return the provided FileSystem', async () => {
+    const fileSystem = FileSystemFactory(null, 'swapped-dir')
+    let result: FileSystem | null = null
+    const Probe = () => {
+      result = useImageCache()
+      return null
+    }
+
+    await render(
+      <ImageCacheProvider config={config} fileSystem={fileSystem}>
+        <Probe />
+      </ImageCacheProvider>,
+    )
+    expect(result).toBe(fileSystem)
+
+    // Without a provider the FileSystem has the default options
+    await act(async () => renderer.update(<Probe />))
+    expect(result).not.toBe(fileSystem)
+    expect((result as FileSystem | null)?.baseFilePath).toBe(
+      mockData.basePath + '/react-native-image-cache-hoc/',
+    )
+  })
+
+  it('When a provider is mounted, the static methods of a HOC should use the provided FileSystem', async () => {
+    const CacheableImage = imageCacheHoc(Image)
+    const OwnImage = imageCacheHoc(Image, { fileDirName: 'own-dir' })
+    const fileSystem = FileSystemFactory(null, 'swapped-dir')
+    const prefetch = jest
+      .spyOn(fileSystem, 'prefetch')
+      .mockReturnValue({ progress: EMPTY, results: Promise.resolve([]), cancel: () => undefined })
+    const unlink = jest.spyOn(fileSystem, 'unlink').mockResolvedValue(true)
+
+    await render(<ImageCacheProvider config={config} fileSystem={fileSystem} />)
+
+    expect(CacheableImage.fileSystem()).toBe(fileSystem)
+    CacheableImage.prefetch([source.uri])
+    await CacheableImage.flush()
+    expect(prefetch).toHaveBeenCalledWith([source.uri], {})
+    expect(unlink).toHaveBeenCalledWith('')
+
+    // Options that configure the FileSystem create their own
+    expect(OwnImage.fileSystem().baseFilePath).toBe(mockData.basePath + '/own-dir/')
+
+    await act(async () => renderer.unmount())
+    expect(CacheableImage.fileSystem()).not.toBe(fileSystem)
+    expect(CacheableImage.fileSystem().baseFilePath).toBe(
+      mockData.basePath + '/react-native-image-cache-hoc/',
+    )
+
+    await render(<ImageCacheProvider />)
+  })
+
+  it('When the config is invalid, the provider should throw', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    expect(() =>
+      create(<ImageCacheProvider config={{ fileHostWhitelist: 'cdn.example.com' as any }} />),
+    ).toThrow('fileHostWhitelist option must be an array of host strings.')
+
+    jest.restoreAllMocks()
+    await render(<ImageCacheProvider />)
+  })
+})
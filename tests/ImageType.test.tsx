@@ -0,0 +1,54 @@
+import { decodeBase64, detectImageType, getImageTypeFromExtension } from '../src/ImageType'
+
+describe('ImageType', () => {
+  it('#decodeBase64 should decode base64 to bytes.', () => {
+    expect(decodeBase64('iVBORw0KGgoAAAAN')).toEqual([
+      0x89,
+      0x50,
+      0x4e,
+      0x47,
+      0x0d,
+      0x0a,
+      0x1a,
+      0x0a,
+      0x00,
+      0x00,
+      0x00,
+      0x0d,
+    ])
+    expect(decodeBase64('Qk0=')).toEqual([0x42, 0x4d])
+  })
+
+  it('#detectImageType should detect the signature of each image type.', () => {
+    const signatures = [
+      { type: 'jpeg', base64: '/9j/4AAQSkZJRgAB' },
+      { type: 'png', base64: 'iVBORw0KGgoAAAAN' },
+      { type: 'gif', base64: 'R0lGODlhAQABAIAA' },
+      { type: 'webp', base64: 'UklGRiQAAABXRUJQ' },
+      { type: 'bmp', base64: 'Qk02AAAAAAAAADYA' },
+      { type: 'heic', base64: 'AAAAGGZ0eXBoZWlj' },
+      { type: 'avif', base64: 'AAAAHGZ0eXBhdmlm' },
+    ]
+
+    signatures.forEach(({ type, base64 }) => {
+      expect(detectImageType(decodeBase64(base64))).toBe(type)
+    })
+  })
+
+  it('#detectImageType should not detect other files as images.', () => {
+    // An HTML page and an mp4 video, which shares the ftyp box with HEIC and AVIF images.
+    expect(detectImageType(decodeBase64('PCFET0NUWVBFIGh0'))).toBeNull()
+    expect(detectImageType(decodeBase64('AAAAGGZ0eXBtcDQy'))).toBeNull()
+    expect(detectImageType([])).toBeNull()
+  })
+
+  it('#getImageTypeFromExtension should map image extensions to their image type.', () => {
+    expect(getImageTypeFromExtension('jpg')).toBe('jpeg')
+    expect(getImageTypeFromExtension('.JPEG')).toBe('jpeg')
+    expect(getImageTypeFromExtension('.heif')).toBe('heic')
+    expect(getImageTypeFromExtension('.webp')).toBe('webp')
+    expect(getImageTypeFromExtension('.bin')).toBeNull()
+    expect(getImageTypeFromExtension('constructor')).toBeNull()
+    expect(getImageTypeFromExtension('')).toBeNull()
+  })
+})
@@ -0,0 +1,39 @@
+import { matchesIntegrity } from '../src/Integrity'
+
+describe('Integrity', () => {
+  // 'hello' encoded as base64
+  const contents = 'aGVsbG8='
+
+  it('#matchesIntegrity should compare the hash of the contents.', () => {
+    expect(matchesIntegrity(contents, 'sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=')).toBe(
+      true,
+    )
+    expect(
+      matchesIntegrity(
+        contents,
+        'sha384-WeF0h3dEjGnea4ANejO7+5/xtGPkQ1TDVTvNucZm+pASWjx5+QOXvfX2oT3oKGhP',
+      ),
+    ).toBe(true)
+    expect(matchesIntegrity(contents, 'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=')).toBe(
+      false,
+    )
+  })
+
+  it('#matchesIntegrity should match if any of several hashes matches.', () => {
+    expect(
+      matchesIntegrity(
+        contents,
+        'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU= sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=',
+      ),
+    ).toBe(true)
+  })
+
+  it('#matchesIntegrity should throw for unsupported algorithms.', () => {
+    expect(() => matchesIntegrity(contents, 'md5-XUFAKrxLKna5cZ2REBfFkg==')).toThrow(
+      'Unsupported integrity md5-XUFAKrxLKna5cZ2REBfFkg==, expected a sha256, sha384 or sha512 hash.',
+    )
+    expect(() =>
+      matchesIntegrity(contents, 'LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ='),
+    ).toThrow('Unsupported integrity')
+  })
+})
@@ -0,0 +1,19 @@
+import { configuresFileSystem, mergeOptions } from '../src/Options'
+
+describe('Options', () => {
+  it('#mergeOptions should only override options that are defined.', () => {
+    expect(
+      mergeOptions(
+        { fileDirName: 'provided-dir', maxAge: 60 },
+        { fileDirName: undefined, maxAge: 120, fileHostWhitelist: ['cdn.example.com'] },
+      ),
+    ).toEqual({ fileDirName: 'provided-dir', maxAge: 120, fileHostWhitelist: ['cdn.example.com'] })
+  })
+
+  it('#configuresFileSystem should tell apart options that configure the FileSystem.', () => {
+    expect(configuresFileSystem({})).toBe(false)
+    expect(configuresFileSystem({ fileHostWhitelist: ['cdn.example.com'], maxAge: 60 })).toBe(false)
+    expect(configuresFileSystem({ fileDirName: 'own-dir' })).toBe(true)
+    expect(configuresFileSystem({ accept: 'image/webp' })).toBe(true)
+  })
+})
@@ -0,0 +1,26 @@
+import { getSourceUrlError } from '../src/SourceUrl'
+
+describe('SourceUrl', () => {
+  it('#getSourceUrlError should accept web accessible urls with a valid protocol and host.', () => {
+    expect(getSourceUrlError('https://example.com/image.png', ['https'], [])).toBeNull()
+    expect(
+      getSourceUrlError('http://cdn.example.com/image.png', ['http', 'https'], ['cdn.example.com']),
+    ).toBeNull()
+  })
+
+  it('#getSourceUrlError should report why a url is invalid.', () => {
+    expect(getSourceUrlError(undefined, ['https'], [])).toMatchObject({ type: 'invalidUrl' })
+    expect(getSourceUrlError('example.com/image.png', ['https'], [])).toMatchObject({
+      type: 'invalidUrl',
+    })
+    expect(getSourceUrlError('http://example.com/image.png', ['https'], [])).toMatchObject({
+      type: 'invalidUrl',
+    })
+    expect(
+      getSourceUrlError('https://example.com/image.png', ['https'], ['cdn.example.com']),
+    ).toMatchObject({
+      type: 'hostNotAllowed',
+      message: 'Source uri host is not allowed https://example.com/image.png',
+    })
+  })
+})
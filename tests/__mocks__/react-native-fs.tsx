@@ -75,7 +75,16 @@ module.exports = {
     return found ? Promise.resolve(found) : Promise.reject(new Error('File not found.'))
   }),
   readFile: jest.fn(),
-  read: jest.fn(),
+  // Leading bytes of an image of the type of the file extension, png if it is not a jpeg or gif
+  read: jest
+    .fn()
+    .mockImplementation(async (filepath: string) =>
+      /\.jpe?g$/.test(filepath)
+        ? '/9j/4AAQSkZJRgAB'
+        : /\.gif$/.test(filepath)
+        ? 'R0lGODlhAQABAIAA'
+        : 'iVBORw0KGgoAAAAN',
+    ),
   readFileAssets: jest.fn(),
   hash: jest.fn(),
   copyFileAssets: jest.fn(),
@@ -85,7 +94,8 @@ module.exports = {
   appendFile: jest.fn(),
   write: jest.fn(),
   downloadFile: jest.fn(() => ({
-    promise: Promise.resolve({ statusCode: 200 }),
+    jobId: 1,
+    promise: Promise.resolve({ jobId: 1, statusCode: 200, bytesWritten: 0 }),
   })),
   uploadFiles: jest.fn(),
   touch: jest.fn(),
@@ -5,6 +5,8 @@
  * More info: https://github.com/facebook/jest/issues/2567
  *
  */
+import { CacheEntry } from '../src/CacheManifest'
+
 export const mockData = {
   basePath: '/base/file/path',
   mockCacheableImageProps: {
@@ -13,3 +15,24 @@ export const mockData = {
     },
   },
 }
+
+export const mockEntry = (entry: Partial<CacheEntry>): CacheEntry => ({
+  url: null,
+  fileName: '',
+  permanent: false,
+  size: 0,
+  contentType: null,
+  etag: null,
+  lastModified: null,
+  cacheControl: null,
+  expires: null,
+  expiresAt: null,
+  maxAge: null,
+  createdAt: 0,
+  validatedAt: 0,
+  lastAccess: 0,
+  hits: 0,
+  width: null,
+  height: null,
+  ...entry,
+})
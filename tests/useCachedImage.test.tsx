@@ -0,0 +1,196 @@
+import React from 'react'
+import { Image } from 'react-native'
+import RNFS from 'react-native-fs'
+import { act, create, ReactTestRenderer } from 'react-test-renderer'
+import { mocked } from 'ts-jest/utils'
+import FileSystemFactory, { FileSystem } from '../src/FileSystem'
+import { Source, useCachedImage } from '../src/index'
+import { CachedImage, CachedImageOptions } from '../src/useCachedImage'
+import { mockData } from './mockData'
+
+describe('useCachedImage', () => {
+  const MockedRNFS = mocked(RNFS, true)
+  const basePath = mockData.basePath + '/react-native-image-cache-hoc/'
+
+  let result: CachedImage
+  const Probe = ({ source, options }: { source?: Source; options?: CachedImageOptions }) => {
+    result = useCachedImage(source, options)
+    return null
+  }
+
+  // Waits until the pending file system work has completed.
+  const flush = () => act(() => new Promise((resolve) => setImmediate(resolve)))
+
+  let renderer: ReactTestRenderer
+  const render = (source?: Source, options?: CachedImageOptions) =>
+    act(async () => {
+      renderer = create(<Probe source={source} options={options} />)
+    })
+  const update = (source?: Source, options?: CachedImageOptions) =>
+    act(async () => {
+      renderer.update(<Probe source={source} options={options} />)
+    })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    FileSystem.manifests = {}
+  })
+
+  // Unmounting releases the cache lock
+  afterEach(async () => {
+    await act(async () => renderer.unmount())
+
+    expect(FileSystem.cacheLock).toEqual({})
+  })
+
+  it('When there is no source, it should be idle', async () => {
+    await render(undefined)
+
+    expect(result).toMatchObject({ uri: null, status: 'idle', progress: null, error: null })
+  })
+
+  it('When a source is rendered, it should be locked and resolve to the local file', async () => {
+    const uri = 'https://example.com/hook.png'
+
+    await render({ uri })
+    await flush()
+
+    const fileName = Object.keys(FileSystem.cacheLock).find((name) => name.endsWith('.png'))
+    expect(fileName).toBeDefined()
+    expect(result).toMatchObject({
+      uri: 'file://' + basePath + fileName,
+      status: 'loaded',
+      progress: null,
+      error: null,
+      cacheInfo: { status: 'cached', origin: 'network', statusCode: 200 },
+    })
+  })
+
+  it('When a file is cached, its image size should be recorded in the manifest', async () => {
+    const uri = 'https://example.com/size-hook.png'
+    const getSizeMock = jest
+      .spyOn(Image, 'getSize')
+      .mockImplementation((uri: string, success: (width: number, height: number) => void) => {
+        success(100, 200)
+      })
+
+    await render({ uri })
+    await flush()
+
+    const fileSystem = FileSystemFactory()
+    const entry = (await fileSystem.manifest()).get(fileSystem.getFileNameFromUrl(uri))
+    expect(getSizeMock).toHaveBeenCalledTimes(1)
+    expect(entry).toMatchObject({ width: 100, height: 200 })
+
+    getSizeMock.mockRestore()
+  })
+
+  it('When a cached file fails to revalidate, it should stay loaded with the error in its cache info', async () => {
+    const uri = 'https://example.com/revalidate-hook.png'
+    const fileName = FileSystemFactory().getFileNameFromUrl(uri)
+    const stat = MockedRNFS.stat.getMockImplementation() as typeof RNFS.stat
+    MockedRNFS.stat.mockImplementation(async (filepath) =>
+      filepath === basePath + fileName
+        ? {
+            name: fileName,
+            path: filepath,
+            size: '100',
+            mode: 777,
+            mtime: 0,
+            ctime: 0,
+            originalFilepath: '',
+            isFile: () => true,
+            isDirectory: () => false,
+          }
+        : Promise.reject(new Error('File not found.')),
+    )
+    MockedRNFS.downloadFile.mockReturnValueOnce({
+      jobId: 1,
+      promise: Promise.resolve({ jobId: 1, statusCode: 404, bytesWritten: 0 }),
+    })
+
+    await render({ uri, cache: 'mutable' })
+    await flush()
+
+    expect(result).toMatchObject({
+      uri: 'file://' + basePath + fileName,
+      status: 'loaded',
+      error: null,
+      cacheInfo: { status: 'error', origin: 'network', statusCode: 404 },
+    })
+
+    MockedRNFS.stat.mockImplementation(stat)
+  })
+
+  it('When the source uri is invalid, it should report the error without locking a file', async () => {
+    await render({ uri: 'http://example.com/insecure.png' })
+
+    expect(result.status).toBe('error')
+    expect(result.error).toMatchObject({ type: 'invalidUrl' })
+    expect(FileSystem.cacheLock).toEqual({})
+
+    await update({ uri: 'https://example.com/other.png' }, { fileHostWhitelist: ['cdn.com'] })
+
+    expect(result.error).toMatchObject({ type: 'hostNotAllowed' })
+  })
+
+  it('When the source is a local file, it should be used without caching', async () => {
+    await render({ uri: 'file:///local/image.png' })
+
+    expect(result).toMatchObject({ uri: 'file:///local/image.png', status: 'loaded' })
+    expect(MockedRNFS.downloadFile).not.toHaveBeenCalled()
+  })
+
+  it('When the download fails, reload should request the source again', async () => {
+    MockedRNFS.downloadFile.mockReturnValueOnce({
+      jobId: 1,
+      promise: Promise.resolve({ jobId: 1, statusCode: 404, bytesWritten: 0 }),
+    })
+
+    await render({ uri: 'https://example.com/missing-hook.png' })
+    await flush()
+
+    expect(result.status).toBe('error')
+    expect(result.error).toMatchObject({ type: 'httpStatus', statusCode: 404 })
+
+    await act(async () => result.reload())
+    await flush()
+
+    expect(result.status).toBe('loaded')
+    expect(result.error).toBeNull()
+    expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+  })
+
+  it('When the cache is flushed, the source should be downloaded again', async () => {
+    const uri = 'https://example.com/flushed-hook.png'
+
+    await render({ uri })
+    await flush()
+    expect(result.status).toBe('loaded')
+
+    await act(async () => {
+      await FileSystemFactory().unlink('')
+    })
+    await flush()
+
+    expect(result).toMatchObject({ status: 'loaded', error: null })
+    expect(MockedRNFS.downloadFile).toHaveBeenCalledTimes(2)
+  })
+
+  it('When the source uri changes, the lock should move to the new file', async () => {
+    await render({ uri: 'https://example.com/first-hook.png' })
+    await flush()
+    const [firstFileName] = Object.keys(FileSystem.cacheLock)
+
+    await update({ uri: 'https://example.com/second-hook.png' })
+    await flush()
+
+    const lockedFileNames = Object.keys(FileSystem.cacheLock)
+    expect(lockedFileNames).toHaveLength(1)
+    expect(lockedFileNames).not.toContain(firstFileName)
+    expect(result).toMatchObject({
+      uri: 'file://' + basePath + lockedFileNames[0],
+      status: 'loaded',
+    })
+  })
+})